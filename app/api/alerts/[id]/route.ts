@@ -0,0 +1,56 @@
+import { NextResponse } from 'next/server';
+import {
+  deleteAlertRule,
+  getAlertRule,
+  loadAlerts,
+  updateAlertRule,
+  type AlertRuleInput,
+} from '@/lib/alerts';
+
+/**
+ * Single price alert rule
+ *
+ * GET    - The rule
+ * PATCH  - Partial update (same fields as POST /api/alerts)
+ * DELETE - Remove the rule
+ */
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+interface RouteContext {
+  params: { id: string };
+}
+
+function notFound(id: string) {
+  return NextResponse.json({ error: `Alert rule ${id} not found` }, { status: 404 });
+}
+
+export async function GET(_request: Request, { params }: RouteContext) {
+  await loadAlerts();
+  const rule = getAlertRule(params.id);
+  return rule ? NextResponse.json({ rule }) : notFound(params.id);
+}
+
+export async function PATCH(request: Request, { params }: RouteContext) {
+  let body: AlertRuleInput;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  try {
+    const rule = await updateAlertRule(params.id, body);
+    return rule ? NextResponse.json({ status: 'ok', rule }) : notFound(params.id);
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : String(error) },
+      { status: 400 }
+    );
+  }
+}
+
+export async function DELETE(_request: Request, { params }: RouteContext) {
+  const deleted = await deleteAlertRule(params.id);
+  return deleted ? NextResponse.json({ status: 'ok', id: params.id }) : notFound(params.id);
+}
@@ -0,0 +1,54 @@
+import { NextResponse } from 'next/server';
+import {
+  createAlertRule,
+  getTriggeredAlerts,
+  listAlertRules,
+  loadAlerts,
+  type AlertRuleInput,
+} from '@/lib/alerts';
+import { getAlertStoreName } from '@/lib/alertStore';
+
+/**
+ * Price alert rules
+ *
+ * GET  - List rules and recently triggered alerts (?triggered=N, default 50)
+ * POST - Create a rule: { symbol | securityId, condition, threshold,
+ *        direction?, windowMinutes?, cooldownMinutes?, enabled?, note? }
+ *
+ * Triggered alerts are also streamed as `alert` events on /api/ticks.
+ */
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const limit = Number(searchParams.get('triggered') ?? 50);
+
+  await loadAlerts();
+  const rules = listAlertRules();
+  return NextResponse.json({
+    store: getAlertStoreName(),
+    count: rules.length,
+    rules,
+    triggered: getTriggeredAlerts(Number.isFinite(limit) && limit > 0 ? limit : 50),
+  });
+}
+
+export async function POST(request: Request) {
+  let body: AlertRuleInput;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  try {
+    const rule = await createAlertRule(body);
+    return NextResponse.json({ status: 'ok', rule }, { status: 201 });
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : String(error) },
+      { status: 400 }
+    );
+  }
+}
@@ -0,0 +1,86 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import {
+  authenticate,
+  checkSignInRateLimit,
+  createSessionToken,
+  SESSION_COOKIE,
+  SESSION_TTL_SECONDS,
+  verifyApiKey,
+} from '@/lib/auth';
+
+/**
+ * Browser sessions
+ *
+ * GET    - The caller's key name and scopes (401 when not signed in)
+ * POST   - Exchange { apiKey } for a signed, HttpOnly session cookie
+ * DELETE - Sign out
+ *
+ * Public in middleware.ts; each method checks credentials itself, and
+ * sign-in attempts are rate limited per client IP.
+ */
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+export async function GET(request: Request) {
+  const principal = await authenticate(request.headers);
+  if (!principal) {
+    return NextResponse.json({ error: 'Not signed in' }, { status: 401 });
+  }
+  return NextResponse.json(principal);
+}
+
+export async function POST(request: NextRequest) {
+  const rate = checkSignInRateLimit(request);
+  if (!rate.allowed) {
+    return NextResponse.json(
+      { error: 'Too many sign-in attempts' },
+      {
+        status: 429,
+        headers: { 'Retry-After': String(Math.max(Math.ceil((rate.resetAt - Date.now()) / 1000), 1)) },
+      }
+    );
+  }
+
+  let body: { apiKey?: unknown };
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  const principal = typeof body.apiKey === 'string' ? await verifyApiKey(body.apiKey.trim()) : null;
+  if (!principal) {
+    return NextResponse.json({ error: 'Invalid API key' }, { status: 401 });
+  }
+
+  let session: Awaited<ReturnType<typeof createSessionToken>>;
+  try {
+    session = await createSessionToken(principal.name);
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : String(error) },
+      { status: 503 }
+    );
+  }
+
+  const response = NextResponse.json({
+    status: 'ok',
+    name: principal.name,
+    scopes: principal.scopes,
+    expiresAt: session.expiresAt,
+  });
+  response.cookies.set(SESSION_COOKIE, session.token, {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: process.env.NODE_ENV === 'production',
+    path: '/',
+    maxAge: SESSION_TTL_SECONDS,
+  });
+  return response;
+}
+
+export async function DELETE() {
+  const response = NextResponse.json({ status: 'ok' });
+  response.cookies.delete(SESSION_COOKIE);
+  return response;
+}
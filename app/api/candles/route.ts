@@ -0,0 +1,70 @@
+import { NextResponse } from 'next/server';
+import {
+  CANDLE_INTERVALS,
+  getCandles,
+  isCandleInterval,
+  resolveCandleSecurityId,
+} from '@/lib/candles';
+
+/**
+ * OHLCV bars from the in-memory candle aggregator
+ *
+ * GET /api/candles?symbol=INFY.NS&interval=5m[&from=<unix seconds | ISO date>]
+ * GET /api/candles?securityId=1594&interval=1m
+ *
+ * The last bar is still forming when `closed` is false.
+ */
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+function parseFrom(value: string | null): number | undefined | null {
+  if (!value) return undefined;
+  if (/^\d+$/.test(value)) return Number(value);
+
+  const parsed = Date.parse(value);
+  return Number.isNaN(parsed) ? null : Math.floor(parsed / 1000);
+}
+
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const symbol = searchParams.get('symbol');
+  const securityIdParam = searchParams.get('securityId');
+  const interval = searchParams.get('interval') ?? '1m';
+  const from = parseFrom(searchParams.get('from'));
+
+  if (!isCandleInterval(interval)) {
+    return NextResponse.json(
+      { error: `interval must be one of ${Object.keys(CANDLE_INTERVALS).join(', ')}` },
+      { status: 400 }
+    );
+  }
+
+  if (from === null) {
+    return NextResponse.json(
+      { error: 'from must be Unix seconds or an ISO date' },
+      { status: 400 }
+    );
+  }
+
+  const securityId = securityIdParam
+    ? Number(securityIdParam)
+    : symbol
+      ? resolveCandleSecurityId(symbol)
+      : undefined;
+
+  if (!securityId) {
+    return NextResponse.json(
+      { error: symbol ? `No candles for symbol ${symbol}` : 'Provide ?symbol= or ?securityId=' },
+      { status: symbol ? 404 : 400 }
+    );
+  }
+
+  const candles = getCandles(securityId, interval, from);
+  return NextResponse.json({
+    securityId,
+    symbol: candles[0]?.symbol ?? symbol,
+    interval,
+    count: candles.length,
+    candles,
+  });
+}
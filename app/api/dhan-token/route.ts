@@ -0,0 +1,47 @@
+import { NextResponse } from 'next/server';
+import { getAuthFailure, getSocketStatus, setDhanAccessToken } from '@/lib/dhanSocket';
+import { getDhanCredentialStatus } from '@/lib/dhanCredentials';
+
+/**
+ * Dhan access token (admin scope)
+ *
+ * GET  - Token source, client ID, token hint and expiry (never the token)
+ *        and the last auth failure
+ * POST - Set a new token and reconnect: { accessToken, clientId? }
+ *
+ * The token is written back to the file / Firestore source when that is
+ * the configured DHAN_TOKEN_SOURCE; with env it lasts until restart.
+ */
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+function tokenStatus() {
+  return {
+    websocket: getSocketStatus(),
+    authFailure: getAuthFailure(),
+    credentials: getDhanCredentialStatus(),
+  };
+}
+
+export async function GET() {
+  return NextResponse.json(tokenStatus());
+}
+
+export async function POST(request: Request) {
+  let body: { accessToken?: unknown; clientId?: unknown };
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  try {
+    const persisted = await setDhanAccessToken(body);
+    return NextResponse.json({ status: 'ok', persisted, ...tokenStatus() });
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : String(error) },
+      { status: 400 }
+    );
+  }
+}
@@ -0,0 +1,16 @@
+import { NextResponse } from 'next/server';
+
+/**
+ * Liveness probe: the process is up and serving requests
+ * Deliberately independent of the feed, so a market-hours outage never
+ * gets the server restarted
+ */
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+export async function GET() {
+  return NextResponse.json({
+    status: 'ok',
+    uptimeSeconds: Math.round(process.uptime()),
+  });
+}
@@ -0,0 +1,13 @@
+import { NextResponse } from 'next/server';
+import { getFeedReadiness } from '@/lib/feedHealth';
+
+/**
+ * Readiness probe: 503 while the market is open and the feed is not delivering
+ */
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+export async function GET() {
+  const readiness = getFeedReadiness();
+  return NextResponse.json(readiness, { status: readiness.ready ? 200 : 503 });
+}
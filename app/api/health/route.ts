@@ -1,16 +1,15 @@
-/** * Health check API route * 
- * This endpoint keeps the server running and ensures the WebSocket * connection is initialized when the module is imported. */ 
-import { NextResponse } from 'next/server'; 
-import { initDhanSocket, getSocketStatus } from '@/lib/dhanSocket'; 
-// Initialize WebSocket connection on first API call (server startup) 
-// This ensures the connection is established when the server starts 
+import { NextResponse } from 'next/server';
+import { getFeedDiagnostics } from '@/lib/feedHealth';
 
-initDhanSocket(); 
+/**
+ * Feed diagnostics
+ *
+ * Always 200 so dashboards can read the payload; `status` is "degraded"
+ * when the readiness check fails. Probes: /api/health/live, /api/health/ready
+ */
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
 
-export async function GET() { 
-  const socketStatus = getSocketStatus(); 
-  return NextResponse.json({ 
-    status: 'ok', 
-    websocket: socketStatus 
-  }); 
-}
\ No newline at end of file
+export async function GET() {
+  return NextResponse.json(await getFeedDiagnostics());
+}
@@ -0,0 +1,69 @@
+import { NextResponse } from 'next/server';
+import {
+  clampSearchLimit,
+  getInstrumentBySecurityId,
+  getInstrumentMasterStatus,
+  getInstrumentsByUnderlying,
+  searchInstruments,
+} from '@/lib/instrumentMaster';
+
+/**
+ * Instrument master lookup
+ *
+ * GET /api/instruments?q=RELIANCE[&segment=NSE_EQ][&instrument=EQUITY][&limit=25]
+ * GET /api/instruments?securityId=2885[&segment=NSE_EQ]
+ * GET /api/instruments?underlying=NIFTY[&segment=NSE_FNO][&instrument=OPTIDX][&limit=25]
+ */
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const q = searchParams.get('q');
+  const securityId = searchParams.get('securityId');
+  const underlying = searchParams.get('underlying');
+  const limitParam = searchParams.get('limit');
+  const limit = limitParam ? Number(limitParam) : undefined;
+
+  if (limit !== undefined && (!Number.isInteger(limit) || limit < 1)) {
+    return NextResponse.json({ error: '"limit" must be a positive integer' }, { status: 400 });
+  }
+
+  const options = {
+    exchangeSegment: searchParams.get('segment') ?? undefined,
+    instrument: searchParams.get('instrument') ?? undefined,
+    limit,
+  };
+
+  if (!q && !securityId && !underlying) {
+    return NextResponse.json(
+      { error: 'Provide one of ?q=, ?securityId= or ?underlying=', master: getInstrumentMasterStatus() },
+      { status: 400 }
+    );
+  }
+
+  try {
+    if (securityId) {
+      const instrument = await getInstrumentBySecurityId(securityId, options.exchangeSegment);
+      if (!instrument) {
+        return NextResponse.json({ error: `Unknown securityId ${securityId}` }, { status: 404 });
+      }
+      return NextResponse.json({ instrument });
+    }
+
+    // An index has tens of thousands of derivatives, so both are limited
+    const results = underlying
+      ? await getInstrumentsByUnderlying(underlying, { ...options, limit: clampSearchLimit(limit) })
+      : await searchInstruments(q!, options);
+
+    return NextResponse.json({ count: results.length, results });
+  } catch (error) {
+    return NextResponse.json(
+      {
+        error: 'Instrument master unavailable',
+        detail: error instanceof Error ? error.message : String(error),
+      },
+      { status: 503 }
+    );
+  }
+}
@@ -0,0 +1,19 @@
+// Registers the feed and Firestore writer metrics
+import '@/lib/dhanSocket';
+import '@/lib/firebaseServer';
+import { METRICS_CONTENT_TYPE, renderMetrics } from '@/lib/metrics';
+
+/**
+ * Prometheus scrape endpoint for the feed pipeline
+ */
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+export async function GET() {
+  return new Response(renderMetrics(), {
+    headers: {
+      'Content-Type': METRICS_CONTENT_TYPE,
+      'Cache-Control': 'no-store',
+    },
+  });
+}
@@ -0,0 +1,55 @@
+import { NextResponse } from 'next/server';
+import { loadInstrumentMaster } from '@/lib/instrumentMaster';
+import { getActiveOptionChains, getOptionChain } from '@/lib/optionChain';
+
+/**
+ * Live option chain
+ *
+ * GET /api/option-chain?underlying=NIFTY[&expiry=YYYY-MM-DD][&strikes=10]
+ * GET /api/option-chain            - list chains currently being tracked
+ */
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const underlying = searchParams.get('underlying');
+  const expiry = searchParams.get('expiry') ?? undefined;
+  const strikes = searchParams.get('strikes');
+
+  if (!underlying) {
+    return NextResponse.json({ chains: getActiveOptionChains() });
+  }
+
+  if (expiry && !/^\d{4}-\d{2}-\d{2}$/.test(expiry)) {
+    return NextResponse.json({ error: 'expiry must be YYYY-MM-DD' }, { status: 400 });
+  }
+
+  // Loaded up front, so a download failure isn't reported as an unknown underlying
+  try {
+    await loadInstrumentMaster();
+  } catch (error) {
+    return NextResponse.json(
+      {
+        error: 'Instrument master unavailable',
+        detail: error instanceof Error ? error.message : String(error),
+      },
+      { status: 503 }
+    );
+  }
+
+  try {
+    const chain = await getOptionChain(
+      underlying,
+      expiry,
+      strikes ? Number(strikes) || undefined : undefined
+    );
+    return NextResponse.json(chain);
+  } catch (error) {
+    // Unknown underlying or expiry
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : String(error) },
+      { status: 404 }
+    );
+  }
+}
@@ -1,10 +1,23 @@
-  // /api/start-dhan/route.ts
-  // API route to start Dhan WebSocket connection
-  // Can be called manually or via Vercel cron job
-  import { NextResponse } from 'next/server';
-  import { initDhanSocket } from '@/lib/dhanSocket';
+import { NextResponse } from 'next/server';
+import { getSocketStatus, initDhanSocket } from '@/lib/dhanSocket';
 
-  export async function GET() {
-    initDhanSocket(); // starts WebSocket
-    return NextResponse.json({ status: 'ok', msg: 'Dhan WebSocket started' });
-  }
+/**
+ * Start the Dhan WebSocket connection (admin scope)
+ *
+ * Called manually or by the Vercel cron job in vercel.json, which sends
+ * `Authorization: Bearer $CRON_SECRET` - list that value as an admin key
+ * in API_KEYS.
+ */
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+export async function GET() {
+  initDhanSocket(); // starts WebSocket
+  return NextResponse.json({
+    status: 'ok',
+    msg: 'Dhan WebSocket started',
+    websocket: getSocketStatus(),
+  });
+}
+
+export const POST = GET;
@@ -0,0 +1,20 @@
+import { NextResponse } from 'next/server';
+import { closeSocket, getSocketStatus } from '@/lib/dhanSocket';
+
+/**
+ * Stop the Dhan WebSocket connection (admin scope)
+ *
+ * Closes the socket and stops the session scheduler, watchdog, fan-out
+ * and webhooks; nothing reconnects until /api/start-dhan is called.
+ */
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+export async function POST() {
+  closeSocket();
+  return NextResponse.json({
+    status: 'ok',
+    msg: 'Dhan WebSocket stopped',
+    websocket: getSocketStatus(),
+  });
+}
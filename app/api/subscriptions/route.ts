@@ -0,0 +1,82 @@
+import { NextResponse } from 'next/server';
+import {
+  addInstruments,
+  getSubscriptions,
+  removeInstruments,
+} from '@/lib/dhanSocket';
+import type { DhanInstrument } from '@/stockCodes';
+
+/**
+ * Runtime watchlist management
+ *
+ * GET    - List every instrument with its subscription state
+ * POST   - { instruments: DhanInstrument[] } subscribe (or change mode)
+ * DELETE - { securityIds: string[] } or ?securityId= to unsubscribe
+ */
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+export async function GET() {
+  const subscriptions = getSubscriptions();
+  const states: Record<string, number> = {};
+  for (const sub of subscriptions) {
+    states[sub.state] = (states[sub.state] ?? 0) + 1;
+  }
+  return NextResponse.json({
+    count: subscriptions.length,
+    states,
+    subscriptions,
+  });
+}
+
+export async function POST(request: Request) {
+  let body: { instruments?: DhanInstrument[] };
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  if (!Array.isArray(body.instruments) || body.instruments.length === 0) {
+    return NextResponse.json(
+      { error: 'Body must include a non-empty "instruments" array' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const subscriptions = addInstruments(body.instruments);
+    return NextResponse.json({ status: 'ok', subscriptions });
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : String(error) },
+      { status: 400 }
+    );
+  }
+}
+
+export async function DELETE(request: Request) {
+  const { searchParams } = new URL(request.url);
+  let securityIds = searchParams.getAll('securityId');
+
+  if (securityIds.length === 0) {
+    try {
+      const body: { securityIds?: string[] } = await request.json();
+      securityIds = Array.isArray(body.securityIds) ? body.securityIds : [];
+    } catch {
+      securityIds = [];
+    }
+  }
+
+  if (securityIds.length === 0) {
+    return NextResponse.json(
+      { error: 'Provide ?securityId= or a "securityIds" array in the body' },
+      { status: 400 }
+    );
+  }
+
+  const removed = removeInstruments(securityIds);
+  const notFound = securityIds.map(String).filter(id => !removed.includes(id));
+
+  return NextResponse.json({ status: 'ok', removed, notFound });
+}
@@ -1,14 +1,31 @@
 import { subscribeToTicks } from '@/lib/dhanSocket';
+import { parseTickStreamFilter } from '@/lib/tickStream';
 
 /**
  * Server-Sent Events (SSE) endpoint for streaming tick data to frontend
- * 
+ *
+ * Query parameters (all optional, comma separated):
+ * - symbols, securityIds, segments: only stream matching instruments
+ * - throttle: at most one tick per security per N ms (latest value wins)
+ * - lastEventId: resume point for clients that can't set Last-Event-ID
+ *
  * This route must be dynamic - it cannot be statically generated
  */
 export const dynamic = 'force-dynamic';
 export const runtime = 'nodejs';
 
-export async function GET() {
+// Upper bound for ?throttle=, so a typo can't silence a stream for minutes
+const MAX_THROTTLE_MS = 60000;
+
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const throttle = Number(searchParams.get('throttle') ?? 0);
+  const options = {
+    filter: parseTickStreamFilter(searchParams),
+    throttleMs: Number.isFinite(throttle) ? Math.min(Math.max(throttle, 0), MAX_THROTTLE_MS) : 0,
+    lastEventId: request.headers.get('last-event-id') ?? searchParams.get('lastEventId'),
+  };
+
   const encoder = new TextEncoder();
   let heartbeatInterval: NodeJS.Timeout | null = null;
   let unsubscribe: (() => void) | null = null;
@@ -16,7 +33,7 @@ export async function GET() {
   const stream = new ReadableStream({
     start(controller) {
       // Subscribe to tick updates
-      unsubscribe = subscribeToTicks(controller);
+      unsubscribe = subscribeToTicks(controller, options);
 
       // Keep connection alive with periodic heartbeat
       heartbeatInterval = setInterval(() => {
@@ -45,4 +62,3 @@ export async function GET() {
     },
   });
 }
-
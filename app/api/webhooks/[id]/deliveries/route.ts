@@ -0,0 +1,31 @@
+import { NextResponse } from 'next/server';
+import {
+  getDeadLetters,
+  getDeliveryAttempts,
+  getWebhook,
+  loadWebhookSubscriptions,
+} from '@/lib/webhooks';
+
+/**
+ * Delivery history for one webhook: recent attempts (status, error,
+ * duration, next retry) and dead letters, newest first. ?limit=N (default 50)
+ */
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+export async function GET(request: Request, { params }: { params: { id: string } }) {
+  await loadWebhookSubscriptions();
+  if (!getWebhook(params.id)) {
+    return NextResponse.json({ error: `Webhook ${params.id} not found` }, { status: 404 });
+  }
+
+  const { searchParams } = new URL(request.url);
+  const limit = Number(searchParams.get('limit') ?? 50);
+  const safeLimit = Number.isFinite(limit) && limit > 0 ? limit : 50;
+
+  return NextResponse.json({
+    webhookId: params.id,
+    attempts: getDeliveryAttempts(params.id, safeLimit),
+    deadLetters: getDeadLetters(params.id, safeLimit),
+  });
+}
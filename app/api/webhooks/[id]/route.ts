@@ -0,0 +1,56 @@
+import { NextResponse } from 'next/server';
+import {
+  deleteWebhook,
+  getWebhook,
+  loadWebhookSubscriptions,
+  updateWebhook,
+  type WebhookInput,
+} from '@/lib/webhooks';
+
+/**
+ * Single webhook subscription
+ *
+ * GET    - The subscription (secret masked) with delivery stats
+ * PATCH  - Partial update (same fields as POST /api/webhooks)
+ * DELETE - Remove the subscription and drop its queued events
+ */
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+interface RouteContext {
+  params: { id: string };
+}
+
+function notFound(id: string) {
+  return NextResponse.json({ error: `Webhook ${id} not found` }, { status: 404 });
+}
+
+export async function GET(_request: Request, { params }: RouteContext) {
+  await loadWebhookSubscriptions();
+  const webhook = getWebhook(params.id);
+  return webhook ? NextResponse.json({ webhook }) : notFound(params.id);
+}
+
+export async function PATCH(request: Request, { params }: RouteContext) {
+  let body: WebhookInput;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  try {
+    const webhook = await updateWebhook(params.id, body);
+    return webhook ? NextResponse.json({ status: 'ok', webhook }) : notFound(params.id);
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : String(error) },
+      { status: 400 }
+    );
+  }
+}
+
+export async function DELETE(_request: Request, { params }: RouteContext) {
+  const deleted = await deleteWebhook(params.id);
+  return deleted ? NextResponse.json({ status: 'ok', id: params.id }) : notFound(params.id);
+}
@@ -0,0 +1,18 @@
+import { NextResponse } from 'next/server';
+import '@/lib/dhanSocket';
+import { loadWebhookSubscriptions, pingWebhook } from '@/lib/webhooks';
+
+/**
+ * Queue a `ping` event for one webhook, regardless of its event and symbol
+ * filters; the result shows up in /api/webhooks/{id}/deliveries
+ */
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+export async function POST(_request: Request, { params }: { params: { id: string } }) {
+  await loadWebhookSubscriptions();
+  if (!pingWebhook(params.id)) {
+    return NextResponse.json({ error: `Webhook ${params.id} not found` }, { status: 404 });
+  }
+  return NextResponse.json({ status: 'queued', id: params.id });
+}
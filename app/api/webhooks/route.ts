@@ -0,0 +1,47 @@
+import { NextResponse } from 'next/server';
+import {
+  createWebhook,
+  listWebhooks,
+  loadWebhookSubscriptions,
+  type WebhookInput,
+} from '@/lib/webhooks';
+import { getWebhookStoreName } from '@/lib/webhookStore';
+
+/**
+ * Outbound webhook subscriptions
+ *
+ * GET  - List subscriptions (secrets masked) with delivery stats
+ * POST - { url, events: ["tick" | "candle" | "alert"], symbols?, secret?,
+ *        enabled?, description? }; the response includes the signing secret
+ */
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+export async function GET() {
+  await loadWebhookSubscriptions();
+  const webhooks = listWebhooks();
+  return NextResponse.json({
+    store: getWebhookStoreName(),
+    count: webhooks.length,
+    webhooks,
+  });
+}
+
+export async function POST(request: Request) {
+  let body: WebhookInput;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  try {
+    const webhook = await createWebhook(body);
+    return NextResponse.json({ status: 'ok', webhook }, { status: 201 });
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : String(error) },
+      { status: 400 }
+    );
+  }
+}
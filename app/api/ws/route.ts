@@ -0,0 +1,29 @@
+import { NextResponse } from 'next/server';
+import '@/lib/dhanSocket';
+import { getWsFanoutStatus } from '@/lib/wsFanout';
+
+/**
+ * Discovery for the WebSocket fan-out (lib/wsFanout.ts)
+ *
+ * Route handlers can't upgrade connections, so the fan-out listens on its
+ * own port; this returns the URL to connect to. WS_FANOUT_PUBLIC_URL
+ * overrides it when a proxy sits in front.
+ */
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+export async function GET(request: Request) {
+  const status = getWsFanoutStatus();
+  if (!status.running) {
+    return NextResponse.json({ error: 'WebSocket fan-out is not running' }, { status: 503 });
+  }
+
+  const requestUrl = new URL(request.url);
+  const protocol = requestUrl.protocol === 'https:' ? 'wss:' : 'ws:';
+  const url = process.env.WS_FANOUT_PUBLIC_URL ?? `${protocol}//${requestUrl.hostname}:${status.port}`;
+
+  return NextResponse.json({
+    url,
+    clients: status.clients.length,
+  });
+}
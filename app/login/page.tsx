@@ -0,0 +1,67 @@
+'use client';
+
+import { useState } from 'react';
+
+/**
+ * Sign in with an API key
+ * The key is exchanged for an HttpOnly session cookie (see lib/auth.ts)
+ * and is not kept in the browser.
+ */
+export default function LoginPage() {
+  const [apiKey, setApiKey] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  async function signIn(event: React.FormEvent) {
+    event.preventDefault();
+    setSubmitting(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/auth/session', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ apiKey }),
+      });
+      if (!response.ok) {
+        const body = await response.json().catch(() => ({}));
+        setError(body.error ?? `Sign-in failed (${response.status})`);
+        return;
+      }
+
+      // Only follow same-origin targets; resolving catches "//host" and "/\host"
+      const next = new URL(
+        new URLSearchParams(window.location.search).get('next') ?? '/',
+        window.location.origin
+      );
+      window.location.href = next.origin === window.location.origin ? next.href : '/';
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setSubmitting(false);
+    }
+  }
+
+  return (
+    <main style={{ padding: '2rem', fontFamily: 'system-ui, sans-serif', maxWidth: '28rem' }}>
+      <h1 style={{ marginBottom: '1rem' }}>Sign in</h1>
+
+      <form onSubmit={signIn} style={{ display: 'flex', flexDirection: 'column', gap: '0.75rem' }}>
+        <label style={{ display: 'flex', flexDirection: 'column', gap: '0.25rem' }}>
+          API key
+          <input
+            type="password"
+            autoComplete="current-password"
+            value={apiKey}
+            onChange={event => setApiKey(event.target.value)}
+            style={{ padding: '0.4rem 0.6rem', border: '1px solid #ccc', borderRadius: '4px' }}
+          />
+        </label>
+        <button type="submit" disabled={submitting || !apiKey} style={{ padding: '0.5rem', cursor: 'pointer' }}>
+          {submitting ? 'Signing in…' : 'Sign in'}
+        </button>
+        {error && <span style={{ color: '#c62828' }}>{error}</span>}
+      </form>
+    </main>
+  );
+}
@@ -1,90 +1,479 @@
 'use client';
 
-import { useEffect, useState } from 'react';
+import { useEffect, useMemo, useRef, useState } from 'react';
 
 interface TickData {
   securityId: number;
   symbol: string;
+  exchangeSegment: string;
   price: number;
   timestamp: number;
   messageType: number;
   messageTypeLabel: string;
+  volume?: number;
+  open?: number;
+  high?: number;
+  low?: number;
+  close?: number;
+  openInterest?: number;
+  prevClose?: number;
+  // Day change, computed server-side
+  change?: number;
+  changePercent?: number;
+  dayHigh?: number;
+  dayLow?: number;
+}
+
+// Latest tick per instrument plus what the table derives from it
+interface WatchlistRow extends Omit<TickData, 'change' | 'changePercent' | 'dayHigh' | 'dayLow'> {
+  dayHigh: number;
+  dayLow: number;
+  change: number | null;
+  changePercent: number | null;
+  flash: 'up' | 'down' | null;
+  flashAt: number;
+}
+
+type SortKey = 'symbol' | 'exchangeSegment' | 'price' | 'change' | 'changePercent' | 'dayHigh' | 'dayLow' | 'timestamp';
+
+interface SortState {
+  key: SortKey;
+  direction: 'asc' | 'desc';
+}
+
+// =====================
+// Constants
+// =====================
+// Conflate server-side: at most one tick per instrument per 250 ms
+const TICK_STREAM_URL = '/api/ticks?throttle=250';
+const FAVOURITES_KEY = 'watchlist.favourites';
+const GROUP_BY_SEGMENT_KEY = 'watchlist.groupBySegment';
+
+const COLUMNS: { key: SortKey; label: string; numeric?: boolean }[] = [
+  { key: 'symbol', label: 'Symbol' },
+  { key: 'exchangeSegment', label: 'Segment' },
+  { key: 'price', label: 'LTP', numeric: true },
+  { key: 'change', label: 'Chg', numeric: true },
+  { key: 'changePercent', label: 'Chg %', numeric: true },
+  { key: 'dayHigh', label: 'Day High', numeric: true },
+  { key: 'dayLow', label: 'Day Low', numeric: true },
+  { key: 'timestamp', label: 'Updated', numeric: true },
+];
+
+// =====================
+// Helpers
+// =====================
+function formatPrice(value: number | null | undefined) {
+  if (value === null || value === undefined) return '—';
+  return value.toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+}
+
+function formatChange(value: number | null, suffix = '') {
+  if (value === null) return '—';
+  return `${value > 0 ? '+' : ''}${formatPrice(value)}${suffix}`;
+}
+
+function formatTime(timestamp: number) {
+  return new Date(timestamp * 1000).toLocaleTimeString('en-IN', { timeZone: 'Asia/Kolkata' });
+}
+
+function changeColor(value: number | null) {
+  if (!value) return '#444';
+  return value > 0 ? '#0a7d32' : '#c62828';
+}
+
+/**
+ * Merge a tick into the previous row for its instrument
+ * The server sends the day change and range with each trade tick; the
+ * previous row's values cover ticks that arrive without them
+ */
+function toRow(tick: TickData, previous: WatchlistRow | undefined, flash: boolean): WatchlistRow {
+  const merged = { ...previous, ...tick };
+
+  let direction: WatchlistRow['flash'] = previous?.flash ?? null;
+  let flashAt = previous?.flashAt ?? 0;
+  if (flash && previous && previous.price !== tick.price) {
+    direction = tick.price > previous.price ? 'up' : 'down';
+    flashAt = Date.now();
+  }
+
+  return {
+    ...merged,
+    dayHigh: tick.dayHigh ?? Math.max(previous?.dayHigh ?? -Infinity, tick.price),
+    dayLow: tick.dayLow ?? Math.min(previous?.dayLow ?? Infinity, tick.price),
+    change: tick.change ?? previous?.change ?? null,
+    changePercent: tick.changePercent ?? previous?.changePercent ?? null,
+    flash: direction,
+    flashAt,
+  };
+}
+
+function compareRows(a: WatchlistRow, b: WatchlistRow, sort: SortState) {
+  const left = a[sort.key];
+  const right = b[sort.key];
+  let result: number;
+  if (typeof left === 'string' || typeof right === 'string') {
+    result = String(left).localeCompare(String(right));
+  } else {
+    // Missing values (no previous close yet) always sort last
+    if (left === null) return right === null ? 0 : 1;
+    if (right === null) return -1;
+    result = left - right;
+  }
+  return sort.direction === 'asc' ? result : -result;
+}
+
+function loadStored<T>(key: string, fallback: T): T {
+  try {
+    const stored = window.localStorage.getItem(key);
+    return stored ? (JSON.parse(stored) as T) : fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+// =====================
+// Components
+// =====================
+// Clear the session cookie before following the link to /login
+async function signOut(event: React.MouseEvent<HTMLAnchorElement>) {
+  event.preventDefault();
+  await fetch('/api/auth/session', { method: 'DELETE' }).catch(() => undefined);
+  window.location.href = '/login';
+}
+
+function Section({
+  title,
+  rows,
+  favourites,
+  onToggleFavourite,
+}: {
+  title: string | null;
+  rows: WatchlistRow[];
+  favourites: Set<number>;
+  onToggleFavourite: (securityId: number) => void;
+}) {
+  if (rows.length === 0) return null;
+
+  return (
+    <tbody>
+      {title && (
+        <tr>
+          <th colSpan={COLUMNS.length + 1} style={styles.sectionHeader}>
+            {title} <span style={{ fontWeight: 'normal', color: '#888' }}>({rows.length})</span>
+          </th>
+        </tr>
+      )}
+      {rows.map(row => (
+        <tr key={row.securityId} style={styles.row}>
+          <td style={styles.cell}>
+            <button
+              onClick={() => onToggleFavourite(row.securityId)}
+              title={favourites.has(row.securityId) ? 'Unpin' : 'Pin to top'}
+              style={styles.star}
+            >
+              {favourites.has(row.securityId) ? '★' : '☆'}
+            </button>
+          </td>
+          <td style={{ ...styles.cell, fontWeight: 600 }}>
+            <a href={`/symbol/${encodeURIComponent(row.symbol)}`} style={{ color: 'inherit' }}>
+              {row.symbol}
+            </a>
+          </td>
+          <td style={{ ...styles.cell, color: '#666' }}>{row.exchangeSegment}</td>
+          <td style={styles.numericCell}>
+            {/* Re-keyed on every move so the flash animation restarts */}
+            <span key={row.flashAt} className={row.flash ? `flash-${row.flash}` : undefined} style={styles.price}>
+              {formatPrice(row.price)}
+            </span>
+          </td>
+          <td style={{ ...styles.numericCell, color: changeColor(row.change) }}>{formatChange(row.change)}</td>
+          <td style={{ ...styles.numericCell, color: changeColor(row.changePercent) }}>
+            {formatChange(row.changePercent, '%')}
+          </td>
+          <td style={styles.numericCell}>{formatPrice(row.dayHigh)}</td>
+          <td style={styles.numericCell}>{formatPrice(row.dayLow)}</td>
+          <td style={{ ...styles.numericCell, color: '#666' }}>{formatTime(row.timestamp)}</td>
+        </tr>
+      ))}
+    </tbody>
+  );
 }
 
 export default function Home() {
   const [isConnected, setIsConnected] = useState(false);
+  const [feedStatus, setFeedStatus] = useState<string | null>(null);
   const [tickCount, setTickCount] = useState(0);
+  const [rows, setRows] = useState<Map<number, WatchlistRow>>(new Map());
+  const [search, setSearch] = useState('');
+  const [sort, setSort] = useState<SortState>({ key: 'symbol', direction: 'asc' });
+  const [favourites, setFavourites] = useState<Set<number>>(new Set());
+  const [groupBySegment, setGroupBySegment] = useState(false);
+  const [preferencesLoaded, setPreferencesLoaded] = useState(false);
+
+  // Ticks arrive faster than React should render; collect them per frame
+  const pendingTicks = useRef<TickData[]>([]);
+  const frameRequested = useRef(false);
+
+  useEffect(() => {
+    setFavourites(new Set(loadStored<number[]>(FAVOURITES_KEY, [])));
+    setGroupBySegment(loadStored(GROUP_BY_SEGMENT_KEY, false));
+    setPreferencesLoaded(true);
+  }, []);
 
   useEffect(() => {
-    console.log('[Frontend] Connecting to tick stream...');
-    
-    const eventSource = new EventSource('/api/ticks');
+    if (!preferencesLoaded) return;
+    window.localStorage.setItem(FAVOURITES_KEY, JSON.stringify(Array.from(favourites)));
+    window.localStorage.setItem(GROUP_BY_SEGMENT_KEY, JSON.stringify(groupBySegment));
+  }, [favourites, groupBySegment, preferencesLoaded]);
 
-    eventSource.onopen = () => {
-      console.log('[Frontend] ✅ Connected to tick stream');
-      setIsConnected(true);
+  useEffect(() => {
+    const flushTicks = () => {
+      frameRequested.current = false;
+      const ticks = pendingTicks.current;
+      pendingTicks.current = [];
+      if (ticks.length === 0) return;
+
+      setTickCount(prev => prev + ticks.length);
+      setRows((previous) => {
+        const next = new Map(previous);
+        for (const tick of ticks) {
+          next.set(tick.securityId, toRow(tick, next.get(tick.securityId), true));
+        }
+        return next;
+      });
     };
 
+    // EventSource reconnects by itself and resumes with Last-Event-ID
+    const eventSource = new EventSource(TICK_STREAM_URL);
+
+    eventSource.onopen = () => setIsConnected(true);
+
     eventSource.onmessage = (event) => {
       try {
         const data = JSON.parse(event.data);
 
         if (data.type === 'initial') {
-          console.log('[Frontend] 📊 Initial tick data:', data.data);
-          console.log(`[Frontend] Loaded ${data.data.length} initial ticks`);
+          const ticks: TickData[] = data.data;
+          setRows((previous) => {
+            const next = new Map(previous);
+            for (const tick of ticks) {
+              next.set(tick.securityId, toRow(tick, next.get(tick.securityId), false));
+            }
+            return next;
+          });
         } else if (data.type === 'tick') {
-          const tick: TickData = data.data;
-          setTickCount((prev) => prev + 1);
-          
-          // Log tick data to console
-          console.log(
-            `[Frontend] 🎯 [${tick.messageTypeLabel}] ${tick.symbol} (ID: ${tick.securityId}) | Price: ₹${tick.price.toFixed(2)} | Timestamp: ${new Date(tick.timestamp * 1000).toLocaleTimeString('en-IN', { timeZone: 'Asia/Kolkata' })}`
-          );
-          console.log('[Frontend] Full tick data:', tick);
-        } else if (event.data === ': heartbeat') {
-          // Heartbeat, ignore
+          pendingTicks.current.push(data.data);
+          if (!frameRequested.current) {
+            frameRequested.current = true;
+            requestAnimationFrame(flushTicks);
+          }
+        } else if (data.type === 'status') {
+          setFeedStatus(data.data.websocket);
         }
       } catch (error) {
         console.error('[Frontend] Error parsing SSE data:', error, event.data);
       }
     };
 
-    eventSource.onerror = (error) => {
-      console.error('[Frontend] ❌ SSE connection error:', error);
-      setIsConnected(false);
-      eventSource.close();
-    };
+    eventSource.onerror = () => setIsConnected(false);
 
     return () => {
-      console.log('[Frontend] Disconnecting from tick stream');
       eventSource.close();
       setIsConnected(false);
     };
   }, []);
 
+  const toggleFavourite = (securityId: number) => {
+    setFavourites((previous) => {
+      const next = new Set(previous);
+      if (!next.delete(securityId)) next.add(securityId);
+      return next;
+    });
+  };
+
+  const toggleSort = (key: SortKey) => {
+    setSort(previous =>
+      previous.key === key
+        ? { key, direction: previous.direction === 'asc' ? 'desc' : 'asc' }
+        : { key, direction: COLUMNS.find(c => c.key === key)?.numeric ? 'desc' : 'asc' }
+    );
+  };
+
+  const sections = useMemo(() => {
+    const query = search.trim().toUpperCase();
+    const visible = Array.from(rows.values())
+      .filter(row => !query || row.symbol.toUpperCase().includes(query) || String(row.securityId) === query)
+      .sort((a, b) => compareRows(a, b, sort));
+
+    const pinned = visible.filter(row => favourites.has(row.securityId));
+    const others = visible.filter(row => !favourites.has(row.securityId));
+
+    const result: { title: string | null; rows: WatchlistRow[] }[] = [];
+    if (pinned.length > 0) result.push({ title: 'Favourites', rows: pinned });
+
+    if (groupBySegment) {
+      const bySegment = new Map<string, WatchlistRow[]>();
+      for (const row of others) {
+        const segment = row.exchangeSegment || 'Unknown';
+        bySegment.set(segment, [...(bySegment.get(segment) ?? []), row]);
+      }
+      Array.from(bySegment.keys())
+        .sort()
+        .forEach(segment => result.push({ title: segment, rows: bySegment.get(segment)! }));
+    } else {
+      result.push({ title: pinned.length > 0 ? 'All instruments' : null, rows: others });
+    }
+    return { list: result, visibleCount: visible.length };
+  }, [rows, search, sort, favourites, groupBySegment]);
+
   return (
     <main style={{ padding: '2rem', fontFamily: 'system-ui, sans-serif' }}>
-      <h1>Dhan WebSocket Live Market Data</h1>
-      <p>
-        This Next.js app maintains a global WebSocket connection to Dhan for live market data.
-      </p>
-      <div style={{ marginTop: '1rem', padding: '1rem', backgroundColor: '#f5f5f5', borderRadius: '8px' }}>
-        <p>
-          <strong>Status:</strong>{' '}
-          <span style={{ color: isConnected ? 'green' : 'red' }}>
-            {isConnected ? '🟢 Connected' : '🔴 Disconnected'}
+      <style>{`
+        @keyframes flash-up { from { background: #b9f6ca; } to { background: transparent; } }
+        @keyframes flash-down { from { background: #ffcdd2; } to { background: transparent; } }
+        .flash-up { animation: flash-up 0.8s ease-out; }
+        .flash-down { animation: flash-down 0.8s ease-out; }
+      `}</style>
+
+      <h1 style={{ marginBottom: '0.5rem' }}>Dhan Live Watchlist</h1>
+
+      <div style={styles.statusBar}>
+        <span style={{ color: isConnected ? 'green' : 'red' }}>
+          {isConnected ? '🟢 Connected' : '🔴 Disconnected'}
+        </span>
+        {feedStatus && <span>Dhan feed: {feedStatus}</span>}
+        <span>{rows.size} instruments</span>
+        <span>{tickCount} ticks</span>
+        <a href="/api/health" style={{ color: 'blue' }}>Health</a>
+        <a href="/login" onClick={signOut} style={{ color: 'blue' }}>Sign out</a>
+      </div>
+
+      <div style={styles.toolbar}>
+        <input
+          type="search"
+          placeholder="Search symbol or security ID"
+          value={search}
+          onChange={event => setSearch(event.target.value)}
+          style={styles.search}
+        />
+        <label style={{ display: 'flex', alignItems: 'center', gap: '0.4rem' }}>
+          <input
+            type="checkbox"
+            checked={groupBySegment}
+            onChange={event => setGroupBySegment(event.target.checked)}
+          />
+          Group by segment
+        </label>
+        {search && (
+          <span style={{ color: '#666' }}>
+            {sections.visibleCount} of {rows.size}
           </span>
-        </p>
-        <p>
-          <strong>Ticks received:</strong> {tickCount}
-        </p>
-        <p style={{ fontSize: '0.9rem', color: '#666', marginTop: '0.5rem' }}>
-          Check the browser console to see live stock price updates.
-        </p>
+        )}
       </div>
-      <p style={{ marginTop: '1rem' }}>
-        <a href="/api/health" style={{ color: 'blue' }}>Health Check</a>
-      </p>
+
+      <table style={styles.table}>
+        <thead>
+          <tr>
+            <th style={{ ...styles.headerCell, width: '2rem' }} />
+            {COLUMNS.map(column => (
+              <th
+                key={column.key}
+                onClick={() => toggleSort(column.key)}
+                style={{ ...styles.headerCell, textAlign: column.numeric ? 'right' : 'left' }}
+              >
+                {column.label}
+                {sort.key === column.key ? (sort.direction === 'asc' ? ' ▲' : ' ▼') : ''}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        {sections.list.map(section => (
+          <Section
+            key={section.title ?? 'all'}
+            title={section.title}
+            rows={section.rows}
+            favourites={favourites}
+            onToggleFavourite={toggleFavourite}
+          />
+        ))}
+      </table>
+
+      {rows.size === 0 && (
+        <p style={{ color: '#666', marginTop: '1rem' }}>
+          Waiting for ticks... (the feed connects around market hours)
+        </p>
+      )}
     </main>
   );
 }
+
+// =====================
+// Styles
+// =====================
+const styles: Record<string, React.CSSProperties> = {
+  statusBar: {
+    display: 'flex',
+    gap: '1.5rem',
+    padding: '0.75rem 1rem',
+    backgroundColor: '#f5f5f5',
+    borderRadius: '8px',
+    fontSize: '0.9rem',
+  },
+  toolbar: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '1rem',
+    margin: '1rem 0',
+  },
+  search: {
+    padding: '0.4rem 0.6rem',
+    width: '18rem',
+    border: '1px solid #ccc',
+    borderRadius: '4px',
+  },
+  table: {
+    width: '100%',
+    borderCollapse: 'collapse',
+    fontSize: '0.9rem',
+  },
+  headerCell: {
+    position: 'sticky',
+    top: 0,
+    padding: '0.5rem',
+    backgroundColor: '#fff',
+    borderBottom: '2px solid #ddd',
+    cursor: 'pointer',
+    userSelect: 'none',
+    whiteSpace: 'nowrap',
+  },
+  sectionHeader: {
+    padding: '0.75rem 0.5rem 0.25rem',
+    textAlign: 'left',
+    color: '#333',
+    borderBottom: '1px solid #ddd',
+  },
+  row: {
+    borderBottom: '1px solid #f0f0f0',
+  },
+  cell: {
+    padding: '0.35rem 0.5rem',
+  },
+  numericCell: {
+    padding: '0.35rem 0.5rem',
+    textAlign: 'right',
+    fontVariantNumeric: 'tabular-nums',
+  },
+  price: {
+    display: 'inline-block',
+    padding: '0 0.3rem',
+    borderRadius: '3px',
+  },
+  star: {
+    border: 'none',
+    background: 'none',
+    cursor: 'pointer',
+    fontSize: '1rem',
+    color: '#f5a623',
+  },
+};
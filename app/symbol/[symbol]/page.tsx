@@ -0,0 +1,496 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { bucketStart, CANDLE_INTERVALS, type Candle, type CandleInterval } from '@/lib/candles';
+import type { TickData } from '@/lib/dhanSocket';
+
+/**
+ * Intraday detail for one instrument
+ *
+ * Bars come from /api/candles (the in-process aggregator) and are kept live
+ * from /api/ticks: ticks extend the forming bar here, and the `candle` event
+ * replaces it with the server's bar once it closes. The chart is plain SVG.
+ */
+
+// =====================
+// Constants
+// =====================
+const INTERVALS = Object.keys(CANDLE_INTERVALS) as CandleInterval[];
+const MAX_BARS = 120;
+// Bars never get wider than this share of the chart, even with few of them
+const MIN_SLOTS = 40;
+
+const CHART_WIDTH = 960;
+const CHART_HEIGHT = 480;
+const MARGIN = { top: 12, right: 72, bottom: 28, left: 8 };
+const VOLUME_SHARE = 0.22;
+
+const UP_COLOR = '#0a7d32';
+const DOWN_COLOR = '#c62828';
+
+// Side panel order; anything else on the tick is listed after these
+const TICK_FIELDS: { key: keyof TickData; label: string }[] = [
+  { key: 'price', label: 'LTP' },
+  { key: 'prevClose', label: 'Prev Close' },
+  { key: 'change', label: 'Change' },
+  { key: 'changePercent', label: 'Chg %' },
+  { key: 'dayOpen', label: 'Day Open' },
+  { key: 'dayHigh', label: 'Day High' },
+  { key: 'dayLow', label: 'Day Low' },
+  { key: 'open', label: 'Open' },
+  { key: 'high', label: 'High' },
+  { key: 'low', label: 'Low' },
+  { key: 'close', label: 'Close' },
+  { key: 'avgPrice', label: 'Avg Price' },
+  { key: 'lastTradedQty', label: 'Last Qty' },
+  { key: 'volume', label: 'Volume' },
+  { key: 'totalBuyQty', label: 'Total Buy Qty' },
+  { key: 'totalSellQty', label: 'Total Sell Qty' },
+  { key: 'openInterest', label: 'OI' },
+  { key: 'prevOpenInterest', label: 'Prev OI' },
+  { key: 'highestOpenInterest', label: 'OI High' },
+  { key: 'lowestOpenInterest', label: 'OI Low' },
+  { key: 'exchangeSegment', label: 'Segment' },
+  { key: 'securityId', label: 'Security ID' },
+  { key: 'messageTypeLabel', label: 'Packet' },
+  { key: 'timestamp', label: 'Last Trade' },
+];
+const HIDDEN_FIELDS = new Set<string>(['symbol', 'messageType', 'depth']);
+
+// =====================
+// Helpers
+// =====================
+function formatPrice(value: number) {
+  return value.toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+}
+
+function formatClock(timestamp: number) {
+  return new Date(timestamp * 1000).toLocaleTimeString('en-IN', {
+    timeZone: 'Asia/Kolkata',
+    hour: '2-digit',
+    minute: '2-digit',
+    hour12: false,
+  });
+}
+
+function formatField(key: string, value: unknown) {
+  if (key === 'timestamp' && typeof value === 'number') {
+    return new Date(value * 1000).toLocaleString('en-IN', { timeZone: 'Asia/Kolkata' });
+  }
+  if (typeof value === 'number') {
+    return Number.isInteger(value) ? value.toLocaleString('en-IN') : formatPrice(value);
+  }
+  return String(value);
+}
+
+/**
+ * Apply a tick to the bar list the same way lib/candles.ts does
+ * @param volume - Traded volume since the previous tick
+ */
+function extendCandles(candles: Candle[], tick: TickData, interval: CandleInterval, volume: number): Candle[] {
+  const size = CANDLE_INTERVALS[interval];
+  const start = bucketStart(tick.timestamp, size);
+  const last = candles[candles.length - 1];
+
+  if (last && start < last.start) return candles; // late tick
+
+  if (last && start === last.start) {
+    return [
+      ...candles.slice(0, -1),
+      {
+        ...last,
+        high: Math.max(last.high, tick.price),
+        low: Math.min(last.low, tick.price),
+        close: tick.price,
+        volume: last.volume + volume,
+        ticks: last.ticks + 1,
+      },
+    ];
+  }
+
+  const next: Candle = {
+    securityId: tick.securityId,
+    symbol: tick.symbol,
+    interval,
+    start,
+    end: start + size,
+    open: tick.price,
+    high: tick.price,
+    low: tick.price,
+    close: tick.price,
+    volume,
+    ticks: 1,
+    closed: false,
+  };
+  return [...candles, next].slice(-MAX_BARS * 4);
+}
+
+/**
+ * Replace (or insert) a bar closed by the server
+ */
+function upsertCandle(candles: Candle[], candle: Candle): Candle[] {
+  const index = candles.findIndex(bar => bar.start === candle.start);
+  if (index === -1) {
+    return [...candles, candle].sort((a, b) => a.start - b.start);
+  }
+  const next = [...candles];
+  next[index] = candle;
+  return next;
+}
+
+// =====================
+// Components
+// =====================
+interface Overlay {
+  label: string;
+  value: number;
+  color: string;
+}
+
+function CandleChart({ candles, overlays }: { candles: Candle[]; overlays: Overlay[] }) {
+  const bars = candles.slice(-MAX_BARS);
+  const plotWidth = CHART_WIDTH - MARGIN.left - MARGIN.right;
+  const plotHeight = CHART_HEIGHT - MARGIN.top - MARGIN.bottom;
+  const volumeHeight = plotHeight * VOLUME_SHARE;
+  const priceHeight = plotHeight - volumeHeight - 8;
+
+  if (bars.length === 0) {
+    return (
+      <div style={{ ...styles.chart, display: 'grid', placeItems: 'center', height: 320, color: '#888' }}>
+        No bars yet for this interval - waiting for ticks
+      </div>
+    );
+  }
+
+  let low = Math.min(...bars.map(bar => bar.low), ...overlays.map(o => o.value));
+  let high = Math.max(...bars.map(bar => bar.high), ...overlays.map(o => o.value));
+  if (high === low) {
+    high += high * 0.005 || 1;
+    low -= low * 0.005 || 1;
+  }
+  const padding = (high - low) * 0.05;
+  low -= padding;
+  high += padding;
+
+  const y = (price: number) => MARGIN.top + ((high - price) / (high - low)) * priceHeight;
+  const slot = plotWidth / Math.max(bars.length, MIN_SLOTS);
+  const bodyWidth = Math.max(1, slot * 0.7);
+  const x = (index: number) => MARGIN.left + index * slot + slot / 2;
+
+  const maxVolume = Math.max(...bars.map(bar => bar.volume), 1);
+  const volumeBase = MARGIN.top + plotHeight;
+
+  const gridLevels = Array.from({ length: 5 }, (_, i) => low + ((high - low) * (i + 0.5)) / 5);
+  const labelEvery = Math.max(1, Math.ceil(bars.length / 8));
+  const last = bars[bars.length - 1];
+
+  return (
+    <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} style={styles.chart} role="img">
+      {/* Grid and price axis */}
+      {gridLevels.map(level => (
+        <g key={level}>
+          <line x1={MARGIN.left} x2={MARGIN.left + plotWidth} y1={y(level)} y2={y(level)} stroke="#eee" />
+          <text x={MARGIN.left + plotWidth + 6} y={y(level) + 4} fontSize={11} fill="#888">
+            {formatPrice(level)}
+          </text>
+        </g>
+      ))}
+
+      {/* Previous close and day high / low */}
+      {overlays.map(overlay => (
+        <g key={overlay.label}>
+          <line
+            x1={MARGIN.left}
+            x2={MARGIN.left + plotWidth}
+            y1={y(overlay.value)}
+            y2={y(overlay.value)}
+            stroke={overlay.color}
+            strokeDasharray="5 4"
+          />
+          <text x={MARGIN.left + 4} y={y(overlay.value) - 4} fontSize={11} fill={overlay.color}>
+            {overlay.label} {formatPrice(overlay.value)}
+          </text>
+        </g>
+      ))}
+
+      {bars.map((bar, index) => {
+        const color = bar.close >= bar.open ? UP_COLOR : DOWN_COLOR;
+        const top = y(Math.max(bar.open, bar.close));
+        const bottom = y(Math.min(bar.open, bar.close));
+        const volume = (bar.volume / maxVolume) * volumeHeight;
+        return (
+          <g key={bar.start}>
+            <title>
+              {`${formatClock(bar.start)}  O ${formatPrice(bar.open)}  H ${formatPrice(bar.high)}  L ${formatPrice(bar.low)}  C ${formatPrice(bar.close)}  V ${bar.volume.toLocaleString('en-IN')}`}
+            </title>
+            <line x1={x(index)} x2={x(index)} y1={y(bar.high)} y2={y(bar.low)} stroke={color} />
+            <rect
+              x={x(index) - bodyWidth / 2}
+              y={top}
+              width={bodyWidth}
+              height={Math.max(1, bottom - top)}
+              fill={color}
+              fillOpacity={bar.closed ? 1 : 0.6}
+            />
+            <rect
+              x={x(index) - bodyWidth / 2}
+              y={volumeBase - volume}
+              width={bodyWidth}
+              height={volume}
+              fill={color}
+              fillOpacity={0.35}
+            />
+            {index % labelEvery === 0 && (
+              <text x={x(index)} y={CHART_HEIGHT - 8} fontSize={11} fill="#888" textAnchor="middle">
+                {formatClock(bar.start)}
+              </text>
+            )}
+          </g>
+        );
+      })}
+
+      {/* Last price tag */}
+      <rect x={MARGIN.left + plotWidth + 2} y={y(last.close) - 9} width={MARGIN.right - 4} height={18} rx={3} fill="#222" />
+      <text x={MARGIN.left + plotWidth + 6} y={y(last.close) + 4} fontSize={11} fill="#fff">
+        {formatPrice(last.close)}
+      </text>
+    </svg>
+  );
+}
+
+function TickPanel({ tick }: { tick: TickData | null }) {
+  if (!tick) {
+    return <aside style={styles.panel}>Waiting for the first tick...</aside>;
+  }
+
+  const known = new Set<string>(TICK_FIELDS.map(field => field.key));
+  const extra = Object.keys(tick).filter(key => !known.has(key) && !HIDDEN_FIELDS.has(key));
+  const fields = [
+    ...TICK_FIELDS.filter(field => tick[field.key] !== undefined),
+    ...extra.map(key => ({ key: key as keyof TickData, label: key })),
+  ];
+
+  return (
+    <aside style={styles.panel}>
+      <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+        <tbody>
+          {fields.map(field => (
+            <tr key={field.key} style={{ borderBottom: '1px solid #f0f0f0' }}>
+              <td style={{ padding: '0.3rem 0', color: '#666' }}>{field.label}</td>
+              <td style={{ padding: '0.3rem 0', textAlign: 'right', fontVariantNumeric: 'tabular-nums' }}>
+                {formatField(field.key, tick[field.key])}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      {tick.depth && tick.depth.length > 0 && (
+        <table style={{ width: '100%', marginTop: '1rem', fontSize: '0.8rem', borderCollapse: 'collapse' }}>
+          <thead>
+            <tr style={{ color: '#666' }}>
+              <th style={{ textAlign: 'right' }}>Bid Qty</th>
+              <th style={{ textAlign: 'right' }}>Bid</th>
+              <th style={{ textAlign: 'right' }}>Ask</th>
+              <th style={{ textAlign: 'right' }}>Ask Qty</th>
+            </tr>
+          </thead>
+          <tbody>
+            {tick.depth.map((level, index) => (
+              <tr key={index}>
+                <td style={{ textAlign: 'right' }}>{level.bidQty.toLocaleString('en-IN')}</td>
+                <td style={{ textAlign: 'right', color: UP_COLOR }}>{formatPrice(level.bidPrice)}</td>
+                <td style={{ textAlign: 'right', color: DOWN_COLOR }}>{formatPrice(level.askPrice)}</td>
+                <td style={{ textAlign: 'right' }}>{level.askQty.toLocaleString('en-IN')}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </aside>
+  );
+}
+
+export default function SymbolPage({ params }: { params: { symbol: string } }) {
+  const symbol = decodeURIComponent(params.symbol);
+
+  const [interval, setSelectedInterval] = useState<CandleInterval>('1m');
+  const [candles, setCandles] = useState<Candle[]>([]);
+  const [tick, setTick] = useState<TickData | null>(null);
+  const [isConnected, setIsConnected] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // The stream outlives interval switches; it reads the current one from here
+  const intervalRef = useRef(interval);
+  const lastVolume = useRef<number | undefined>(undefined);
+
+  useEffect(() => {
+    intervalRef.current = interval;
+    let cancelled = false;
+
+    fetch(`/api/candles?symbol=${encodeURIComponent(symbol)}&interval=${interval}`)
+      .then(async (response) => {
+        const body = await response.json();
+        if (cancelled) return;
+        if (response.ok) {
+          setCandles(body.candles);
+          setError(null);
+        } else {
+          // 404 just means no tick has arrived for this symbol yet
+          setCandles([]);
+          setError(response.status === 404 ? null : body.error);
+        }
+      })
+      .catch((err) => {
+        if (!cancelled) setError(String(err));
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [symbol, interval]);
+
+  useEffect(() => {
+    const eventSource = new EventSource(`/api/ticks?symbols=${encodeURIComponent(symbol)}`);
+
+    eventSource.onopen = () => setIsConnected(true);
+    eventSource.onerror = () => setIsConnected(false);
+
+    eventSource.onmessage = (event) => {
+      try {
+        const data = JSON.parse(event.data);
+
+        if (data.type === 'initial') {
+          const latest = (data.data as TickData[]).find(t => t.symbol === symbol);
+          if (latest) {
+            lastVolume.current = latest.volume;
+            setTick(latest);
+          }
+        } else if (data.type === 'tick') {
+          const next: TickData = data.data;
+          // Same volume delta rule as lib/candles.ts
+          const previousVolume = lastVolume.current;
+          lastVolume.current = next.volume;
+          const volume =
+            next.volume === undefined || previousVolume === undefined || next.volume < previousVolume
+              ? 0
+              : next.volume - previousVolume;
+
+          setTick(previous => ({ ...previous, ...next }));
+          setCandles(previous => extendCandles(previous, next, intervalRef.current, volume));
+        } else if (data.type === 'candle') {
+          const candle: Candle = data.data;
+          if (candle.interval === intervalRef.current) {
+            setCandles(previous => upsertCandle(previous, candle));
+          }
+        }
+      } catch (err) {
+        console.error('[Frontend] Error parsing SSE data:', err, event.data);
+      }
+    };
+
+    return () => eventSource.close();
+  }, [symbol]);
+
+  // Day range comes with the tick; before the first one, use today's bars
+  const overlays: Overlay[] = [];
+  // A first-tick stand-in is the day's open, not a previous close
+  if (tick?.prevClose && tick.prevCloseSource !== 'first_tick') {
+    overlays.push({ label: 'Prev close', value: tick.prevClose, color: '#666' });
+  }
+  const dayHigh = tick?.dayHigh || (candles.length > 0 ? Math.max(...candles.map(bar => bar.high)) : null);
+  const dayLow = tick?.dayLow || (candles.length > 0 ? Math.min(...candles.map(bar => bar.low)) : null);
+  if (dayHigh) overlays.push({ label: 'Day high', value: dayHigh, color: UP_COLOR });
+  if (dayLow) overlays.push({ label: 'Day low', value: dayLow, color: DOWN_COLOR });
+
+  const change = tick?.change ?? null;
+
+  return (
+    <main style={{ padding: '2rem', fontFamily: 'system-ui, sans-serif' }}>
+      <a href="/" style={{ color: 'blue' }}>← Watchlist</a>
+
+      <div style={styles.header}>
+        <h1 style={{ margin: 0 }}>{symbol}</h1>
+        {tick && (
+          <span style={{ fontSize: '1.5rem', fontVariantNumeric: 'tabular-nums' }}>
+            ₹{formatPrice(tick.price)}
+          </span>
+        )}
+        {change !== null && tick?.changePercent !== undefined && (
+          <span style={{ color: change >= 0 ? UP_COLOR : DOWN_COLOR }}>
+            {change >= 0 ? '+' : ''}
+            {formatPrice(change)} ({tick.changePercent.toFixed(2)}%)
+          </span>
+        )}
+        <span style={{ color: isConnected ? 'green' : 'red', fontSize: '0.9rem' }}>
+          {isConnected ? '🟢 Live' : '🔴 Disconnected'}
+        </span>
+      </div>
+
+      <div style={{ display: 'flex', gap: '0.5rem', margin: '1rem 0' }}>
+        {INTERVALS.map(value => (
+          <button
+            key={value}
+            onClick={() => setSelectedInterval(value)}
+            style={{
+              ...styles.intervalButton,
+              ...(value === interval ? styles.intervalButtonActive : {}),
+            }}
+          >
+            {value}
+          </button>
+        ))}
+      </div>
+
+      {error && <p style={{ color: DOWN_COLOR }}>{error}</p>}
+
+      <div style={styles.layout}>
+        <CandleChart candles={candles} overlays={overlays} />
+        <TickPanel tick={tick} />
+      </div>
+    </main>
+  );
+}
+
+// =====================
+// Styles
+// =====================
+const styles: Record<string, React.CSSProperties> = {
+  header: {
+    display: 'flex',
+    alignItems: 'baseline',
+    gap: '1rem',
+    marginTop: '1rem',
+  },
+  layout: {
+    display: 'grid',
+    gridTemplateColumns: 'minmax(0, 1fr) 18rem',
+    gap: '1.5rem',
+    alignItems: 'start',
+  },
+  chart: {
+    width: '100%',
+    height: 'auto',
+    border: '1px solid #eee',
+    borderRadius: '8px',
+    background: '#fff',
+  },
+  panel: {
+    padding: '1rem',
+    backgroundColor: '#f9f9f9',
+    borderRadius: '8px',
+    fontSize: '0.9rem',
+  },
+  intervalButton: {
+    padding: '0.3rem 0.8rem',
+    border: '1px solid #ccc',
+    borderRadius: '4px',
+    background: '#fff',
+    cursor: 'pointer',
+  },
+  intervalButtonActive: {
+    background: '#222',
+    borderColor: '#222',
+    color: '#fff',
+  },
+};
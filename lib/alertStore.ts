@@ -0,0 +1,99 @@
+/**
+ * Persistence for price alert rules
+ *
+ * Rules live in the Firestore collection alertRules (one document per rule)
+ * when Firestore is configured, otherwise in a local JSON file
+ * (ALERT_RULES_FILE, default data/alert-rules.json). ALERT_STORE=file
+ * forces the local file.
+ */
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import type { AlertRule } from './alerts';
+import { getFirestoreServer } from './firebaseServer';
+
+const ALERT_RULES_COLLECTION = 'alertRules';
+const DEFAULT_RULES_FILE = path.join(process.cwd(), 'data', 'alert-rules.json');
+
+function firestore() {
+  return process.env.ALERT_STORE === 'file' ? null : getFirestoreServer();
+}
+
+function rulesFile() {
+  return process.env.ALERT_RULES_FILE ?? DEFAULT_RULES_FILE;
+}
+
+// File updates run one at a time, so concurrent saves don't undo each other
+let fileUpdates: Promise<unknown> = Promise.resolve();
+
+async function readRulesFile(): Promise<AlertRule[]> {
+  try {
+    const data = JSON.parse(await fs.readFile(rulesFile(), 'utf-8'));
+    return Array.isArray(data) ? data : [];
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+    throw error;
+  }
+}
+
+function updateRulesFile(update: (rules: AlertRule[]) => AlertRule[]) {
+  const next = fileUpdates.then(async () => {
+    const filePath = rulesFile();
+    const rules = update(await readRulesFile());
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, JSON.stringify(rules, null, 2));
+  });
+  fileUpdates = next.catch(() => {});
+  return next;
+}
+
+export function getAlertStoreName() {
+  return firestore() ? 'firestore' : 'file';
+}
+
+/**
+ * Load every stored rule; resolves to [] when the store can't be read
+ */
+export async function loadAlertRules(): Promise<AlertRule[]> {
+  try {
+    const db = firestore();
+    if (!db) return await readRulesFile();
+
+    const snapshot = await db.collection(ALERT_RULES_COLLECTION).get();
+    return snapshot.docs.map(doc => doc.data() as AlertRule);
+  } catch (error) {
+    console.error('[AlertStore] ❌ Error loading alert rules:', error);
+    return [];
+  }
+}
+
+/**
+ * Create or replace one rule
+ */
+export async function saveAlertRule(rule: AlertRule) {
+  try {
+    const db = firestore();
+    if (!db) {
+      await updateRulesFile(stored => [...stored.filter(r => r.id !== rule.id), rule]);
+      return;
+    }
+
+    // Firestore rejects undefined values (e.g. an unset note)
+    await db.collection(ALERT_RULES_COLLECTION).doc(rule.id).set(JSON.parse(JSON.stringify(rule)));
+  } catch (error) {
+    console.error(`[AlertStore] ❌ Error saving alert rule ${rule.id}:`, error);
+  }
+}
+
+export async function removeAlertRule(id: string) {
+  try {
+    const db = firestore();
+    if (!db) {
+      await updateRulesFile(stored => stored.filter(r => r.id !== id));
+      return;
+    }
+
+    await db.collection(ALERT_RULES_COLLECTION).doc(id).delete();
+  } catch (error) {
+    console.error(`[AlertStore] ❌ Error deleting alert rule ${id}:`, error);
+  }
+}
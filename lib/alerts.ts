@@ -0,0 +1,488 @@
+/**
+ * Server-side price alerts
+ *
+ * Rules are evaluated on every trade tick from the tick path in
+ * dhanSocket.ts, using exchange time so replays behave like live sessions.
+ * Conditions:
+ * - crosses_above / crosses_below: the price crosses `threshold`
+ * - change_from_prev_close: move of `threshold` % from the previous close
+ * - change_in_window: move of `threshold` % within `windowMinutes`
+ * - gap_at_open: the exchange's day open is `threshold` % away from the
+ *   previous close, checked on the first tick of the day that has one
+ *   (Quote / Full mode only; Ticker packets carry no open)
+ *
+ * A percentage rule fires when its condition becomes true and not again
+ * until it has been false in between; every rule is also silenced for
+ * `cooldownMinutes` after firing. Triggered alerts are announced to
+ * listeners (dhanSocket.ts publishes them as SSE `alert` events).
+ *
+ * Rules are persisted through alertStore.ts.
+ */
+import { loadAlertRules, removeAlertRule, saveAlertRule } from './alertStore';
+
+// =====================
+// Constants
+// =====================
+export const ALERT_CONDITIONS = [
+  'crosses_above',
+  'crosses_below',
+  'change_from_prev_close',
+  'change_in_window',
+  'gap_at_open',
+] as const;
+
+const ALERT_DIRECTIONS = ['up', 'down', 'either'] as const;
+
+const DEFAULT_COOLDOWN_MINUTES = 15;
+const MAX_WINDOW_MINUTES = 24 * 60;
+const TRIGGERED_HISTORY_LIMIT = 500;
+
+const IST_OFFSET_SECONDS = 330 * 60;
+
+// =====================
+// Types
+// =====================
+export type AlertCondition = (typeof ALERT_CONDITIONS)[number];
+export type AlertDirection = (typeof ALERT_DIRECTIONS)[number];
+
+export interface AlertRule {
+  id: string;
+  // Matched against ticks by security ID when set, otherwise by symbol
+  symbol: string;
+  securityId?: number;
+  condition: AlertCondition;
+  // A price for crosses_*, a percentage for the other conditions
+  threshold: number;
+  // Which way a percentage move must go
+  direction: AlertDirection;
+  windowMinutes?: number;
+  cooldownMinutes: number;
+  enabled: boolean;
+  note?: string;
+  createdAt: number;
+  updatedAt: number;
+  lastTriggeredAt: number | null;
+  triggerCount: number;
+}
+
+// Fields a client may set through /api/alerts
+export type AlertRuleInput = Partial<
+  Pick<
+    AlertRule,
+    | 'symbol'
+    | 'securityId'
+    | 'condition'
+    | 'threshold'
+    | 'direction'
+    | 'windowMinutes'
+    | 'cooldownMinutes'
+    | 'enabled'
+    | 'note'
+  >
+>;
+
+export interface TriggeredAlert {
+  id: string;
+  ruleId: string;
+  securityId: number;
+  symbol: string;
+  condition: AlertCondition;
+  threshold: number;
+  price: number;
+  // The price (crosses_*) or percentage move that matched
+  value: number;
+  message: string;
+  note?: string;
+  triggeredAt: number; // Unix ms
+}
+
+export interface AlertTick {
+  securityId: number;
+  symbol: string;
+  price: number;
+  timestamp: number; // Unix seconds
+  prevClose?: number;
+  // 'first_tick' when prevClose is only the day's open standing in (dayStats.ts)
+  prevCloseSource?: string;
+  // The day's open and whether the exchange reported it (dayStats.ts)
+  dayOpen?: number;
+  dayOpenSource?: string;
+}
+
+type AlertListener = (alert: TriggeredAlert) => void;
+
+interface PriceSample {
+  at: number; // Unix seconds
+  price: number;
+}
+
+// =====================
+// State
+// =====================
+const rules = new Map<string, AlertRule>();
+// Rules whose condition currently holds (for de-duplication)
+const activeRules = new Set<string>();
+const lastPrices = new Map<number, number>();
+// IST date whose gap_at_open has been measured, per security
+const gapCheckedDates = new Map<number, string>();
+// Recent prices per security for change_in_window
+const priceHistory = new Map<number, PriceSample[]>();
+const triggered: TriggeredAlert[] = [];
+const listeners = new Set<AlertListener>();
+
+let rulesLoaded: Promise<void> | null = null;
+let historySeconds = 0;
+
+// =====================
+// Helpers
+// =====================
+function istDate(timestamp: number) {
+  return new Date((timestamp + IST_OFFSET_SECONDS) * 1000).toISOString().slice(0, 10);
+}
+
+/**
+ * The tick's previous close, unless it is only the day's open standing in
+ */
+function knownPrevClose(tick: AlertTick) {
+  return tick.prevCloseSource === 'first_tick' ? undefined : tick.prevClose;
+}
+
+function percentChange(from: number, to: number) {
+  return ((to - from) / from) * 100;
+}
+
+function matchesDirection(rule: AlertRule, change: number) {
+  switch (rule.direction) {
+    case 'up':
+      return change >= rule.threshold;
+    case 'down':
+      return change <= -rule.threshold;
+    default:
+      return Math.abs(change) >= rule.threshold;
+  }
+}
+
+function appliesTo(rule: AlertRule, tick: AlertTick) {
+  return rule.securityId !== undefined
+    ? rule.securityId === tick.securityId
+    : rule.symbol === tick.symbol;
+}
+
+// Keep only as much price history as the longest window needs
+function updateHistorySeconds() {
+  historySeconds = 0;
+  rules.forEach((rule) => {
+    if (rule.condition === 'change_in_window' && rule.windowMinutes) {
+      historySeconds = Math.max(historySeconds, rule.windowMinutes * 60);
+    }
+  });
+  if (historySeconds === 0) priceHistory.clear();
+}
+
+function recordPrice(tick: AlertTick) {
+  if (historySeconds === 0) return;
+
+  const samples = priceHistory.get(tick.securityId) ?? [];
+  // One sample per second is plenty for minute windows
+  if (samples.length > 0 && samples[samples.length - 1].at === tick.timestamp) {
+    samples[samples.length - 1].price = tick.price;
+  } else {
+    samples.push({ at: tick.timestamp, price: tick.price });
+  }
+
+  const cutoff = tick.timestamp - historySeconds;
+  let expired = 0;
+  while (expired < samples.length && samples[expired].at < cutoff) expired++;
+  if (expired > 0) samples.splice(0, expired);
+
+  priceHistory.set(tick.securityId, samples);
+}
+
+/**
+ * Validate a rule (new or patched) and fill in defaults
+ * @throws Error describing the first invalid field
+ */
+function normalizeRule(input: AlertRuleInput, existing?: AlertRule): AlertRule {
+  const merged = { ...existing, ...input };
+  const now = Date.now();
+
+  const symbol = typeof merged.symbol === 'string' ? merged.symbol.trim() : '';
+  const securityId = merged.securityId !== undefined ? Number(merged.securityId) : undefined;
+  if (!symbol && securityId === undefined) {
+    throw new Error('Alert rule needs a "symbol" or "securityId"');
+  }
+  if (securityId !== undefined && !Number.isInteger(securityId)) {
+    throw new Error('"securityId" must be an integer');
+  }
+
+  if (!ALERT_CONDITIONS.includes(merged.condition as AlertCondition)) {
+    throw new Error(`"condition" must be one of ${ALERT_CONDITIONS.join(', ')}`);
+  }
+  const condition = merged.condition as AlertCondition;
+
+  const threshold = Number(merged.threshold);
+  if (!Number.isFinite(threshold) || threshold <= 0) {
+    throw new Error('"threshold" must be a positive number');
+  }
+
+  const direction = merged.direction ?? 'either';
+  if (!ALERT_DIRECTIONS.includes(direction)) {
+    throw new Error(`"direction" must be one of ${ALERT_DIRECTIONS.join(', ')}`);
+  }
+
+  let windowMinutes: number | undefined;
+  if (condition === 'change_in_window') {
+    windowMinutes = Number(merged.windowMinutes);
+    if (!Number.isFinite(windowMinutes) || windowMinutes <= 0 || windowMinutes > MAX_WINDOW_MINUTES) {
+      throw new Error(`"windowMinutes" must be between 1 and ${MAX_WINDOW_MINUTES}`);
+    }
+  }
+
+  const cooldownMinutes = Number(merged.cooldownMinutes ?? DEFAULT_COOLDOWN_MINUTES);
+  if (!Number.isFinite(cooldownMinutes) || cooldownMinutes < 0) {
+    throw new Error('"cooldownMinutes" must be zero or more');
+  }
+
+  const enabled = merged.enabled ?? true;
+  if (typeof enabled !== 'boolean') {
+    throw new Error('"enabled" must be true or false');
+  }
+
+  return {
+    id: existing?.id ?? `${Date.now().toString(36)}${Math.random().toString(36).substring(2, 8)}`,
+    symbol,
+    ...(securityId !== undefined ? { securityId } : {}),
+    condition,
+    threshold,
+    direction,
+    ...(windowMinutes !== undefined ? { windowMinutes } : {}),
+    cooldownMinutes,
+    enabled,
+    ...(merged.note ? { note: String(merged.note) } : {}),
+    createdAt: existing?.createdAt ?? now,
+    updatedAt: now,
+    lastTriggeredAt: existing?.lastTriggeredAt ?? null,
+    triggerCount: existing?.triggerCount ?? 0,
+  };
+}
+
+/**
+ * Work out whether a rule matches this tick
+ * @returns The matching price / percentage, or null
+ */
+function evaluateRule(rule: AlertRule, tick: AlertTick, checkGap: boolean): number | null {
+  switch (rule.condition) {
+    case 'crosses_above': {
+      const previous = lastPrices.get(tick.securityId);
+      return previous !== undefined && previous < rule.threshold && tick.price >= rule.threshold
+        ? tick.price
+        : null;
+    }
+    case 'crosses_below': {
+      const previous = lastPrices.get(tick.securityId);
+      return previous !== undefined && previous > rule.threshold && tick.price <= rule.threshold
+        ? tick.price
+        : null;
+    }
+    case 'change_from_prev_close': {
+      const prevClose = knownPrevClose(tick);
+      if (!prevClose) return null;
+      const change = percentChange(prevClose, tick.price);
+      return matchesDirection(rule, change) ? change : null;
+    }
+    case 'change_in_window': {
+      const samples = priceHistory.get(tick.securityId);
+      if (!samples || !rule.windowMinutes) return null;
+      // Measured from the window's low (up) or high (down), not its first price
+      const cutoff = tick.timestamp - rule.windowMinutes * 60;
+      let low = Infinity;
+      let high = -Infinity;
+      for (const sample of samples) {
+        if (sample.at < cutoff) continue;
+        low = Math.min(low, sample.price);
+        high = Math.max(high, sample.price);
+      }
+      if (low === Infinity) return null;
+      const rise = percentChange(low, tick.price);
+      const fall = percentChange(high, tick.price);
+      const change = rule.direction === 'up' || (rule.direction === 'either' && rise >= -fall) ? rise : fall;
+      return matchesDirection(rule, change) ? change : null;
+    }
+    case 'gap_at_open': {
+      // Only the exchange's open: without one (Ticker mode) the first price
+      // seen may be hours in, so the day is skipped rather than guessed
+      const prevClose = knownPrevClose(tick);
+      if (!checkGap || !prevClose || tick.dayOpenSource !== 'exchange' || !tick.dayOpen) return null;
+      const gap = percentChange(prevClose, tick.dayOpen);
+      return matchesDirection(rule, gap) ? gap : null;
+    }
+  }
+}
+
+function describeAlert(rule: AlertRule, tick: AlertTick, value: number) {
+  switch (rule.condition) {
+    case 'crosses_above':
+      return `${tick.symbol} crossed above ${rule.threshold} (₹${tick.price.toFixed(2)})`;
+    case 'crosses_below':
+      return `${tick.symbol} crossed below ${rule.threshold} (₹${tick.price.toFixed(2)})`;
+    case 'change_from_prev_close':
+      return `${tick.symbol} is ${value.toFixed(2)}% from previous close (₹${tick.price.toFixed(2)})`;
+    case 'change_in_window':
+      return `${tick.symbol} moved ${value.toFixed(2)}% in ${rule.windowMinutes}m (₹${tick.price.toFixed(2)})`;
+    case 'gap_at_open':
+      return `${tick.symbol} opened with a ${value.toFixed(2)}% gap`;
+  }
+}
+
+function fireAlert(rule: AlertRule, tick: AlertTick, value: number, triggeredAt: number) {
+  const alert: TriggeredAlert = {
+    id: `${rule.id}-${triggeredAt}`,
+    ruleId: rule.id,
+    securityId: tick.securityId,
+    symbol: tick.symbol,
+    condition: rule.condition,
+    threshold: rule.threshold,
+    price: tick.price,
+    value,
+    message: describeAlert(rule, tick, value),
+    ...(rule.note ? { note: rule.note } : {}),
+    triggeredAt,
+  };
+
+  rule.lastTriggeredAt = triggeredAt;
+  rule.triggerCount++;
+  // Not awaited: the store queues writes, and the tick path must not wait on them
+  saveAlertRule(rule);
+
+  triggered.push(alert);
+  if (triggered.length > TRIGGERED_HISTORY_LIMIT) {
+    triggered.splice(0, triggered.length - TRIGGERED_HISTORY_LIMIT);
+  }
+
+  console.log(`[Alerts] 🔔 ${alert.message}`);
+  listeners.forEach((listener) => {
+    try {
+      listener(alert);
+    } catch (error) {
+      console.error('[Alerts] Error in alert listener:', error);
+    }
+  });
+}
+
+// =====================
+// Public API
+// =====================
+
+/**
+ * Load the stored rules once per process
+ */
+export function loadAlerts(): Promise<void> {
+  rulesLoaded ??= loadAlertRules().then((stored) => {
+    stored.forEach(rule => rules.set(rule.id, rule));
+    updateHistorySeconds();
+    console.log(`[Alerts] Loaded ${stored.length} alert rules`);
+  });
+  return rulesLoaded;
+}
+
+/**
+ * Evaluate every rule for this tick's security
+ * Called from the tick path for trade ticks
+ */
+export function evaluateAlerts(tick: AlertTick) {
+  // The gap is measured once a day, on the first tick that has a previous
+  // close - tracked even without rules, so a rule created (or loaded)
+  // mid-session doesn't take a later tick for the open
+  const date = istDate(tick.timestamp);
+  const checkGap = Boolean(knownPrevClose(tick)) && gapCheckedDates.get(tick.securityId) !== date;
+  if (checkGap) gapCheckedDates.set(tick.securityId, date);
+
+  if (rules.size === 0) return;
+
+  recordPrice(tick);
+
+  const triggeredAt = tick.timestamp * 1000;
+  rules.forEach((rule) => {
+    if (!rule.enabled || !appliesTo(rule, tick)) return;
+
+    const value = evaluateRule(rule, tick, checkGap);
+    const wasActive = activeRules.has(rule.id);
+    if (value === null) {
+      activeRules.delete(rule.id);
+      return;
+    }
+    activeRules.add(rule.id);
+
+    // Crossings are edges already; percentage rules fire on becoming true
+    const isCrossing = rule.condition === 'crosses_above' || rule.condition === 'crosses_below';
+    if (wasActive && !isCrossing) return;
+
+    const cooldownMs = rule.cooldownMinutes * 60 * 1000;
+    if (rule.lastTriggeredAt !== null && triggeredAt - rule.lastTriggeredAt < cooldownMs) return;
+
+    fireAlert(rule, tick, value, triggeredAt);
+  });
+
+  lastPrices.set(tick.securityId, tick.price);
+}
+
+export function onAlert(listener: AlertListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function listAlertRules(): AlertRule[] {
+  return Array.from(rules.values()).sort((a, b) => a.createdAt - b.createdAt);
+}
+
+export function getAlertRule(id: string): AlertRule | undefined {
+  return rules.get(id);
+}
+
+/**
+ * @throws Error when the input is not a valid rule
+ */
+export async function createAlertRule(input: AlertRuleInput): Promise<AlertRule> {
+  await loadAlerts();
+  const rule = normalizeRule(input);
+  rules.set(rule.id, rule);
+  updateHistorySeconds();
+  await saveAlertRule(rule);
+  return rule;
+}
+
+/**
+ * Apply a partial update; resolves to null when the rule doesn't exist
+ * @throws Error when the result is not a valid rule
+ */
+export async function updateAlertRule(id: string, patch: AlertRuleInput): Promise<AlertRule | null> {
+  await loadAlerts();
+  const existing = rules.get(id);
+  if (!existing) return null;
+
+  const rule = normalizeRule(patch, existing);
+  rules.set(id, rule);
+  activeRules.delete(id);
+  updateHistorySeconds();
+  await saveAlertRule(rule);
+  return rule;
+}
+
+export async function deleteAlertRule(id: string): Promise<boolean> {
+  await loadAlerts();
+  if (!rules.delete(id)) return false;
+
+  activeRules.delete(id);
+  updateHistorySeconds();
+  await removeAlertRule(id);
+  return true;
+}
+
+/**
+ * Most recent triggered alerts, newest first
+ */
+export function getTriggeredAlerts(limit = 50): TriggeredAlert[] {
+  return triggered.slice(-limit).reverse();
+}
@@ -0,0 +1,388 @@
+/**
+ * API authentication and authorization
+ *
+ * Used by middleware.ts for every /api route and page, and by the
+ * WebSocket fan-out on upgrade. Uses Web Crypto only, so it runs in both
+ * the Edge (middleware) and Node.js runtimes.
+ *
+ * Machine clients send an API key (`Authorization: Bearer <key>` or
+ * `X-API-Key`); keys are configured in API_KEYS as JSON:
+ *   [{ "name": "grafana", "key": "...", "scopes": ["ticks:read"], "rateLimit": 120 }]
+ *
+ * Browser users exchange a key for a signed session cookie on
+ * POST /api/auth/session. The session only names its key, so scopes and
+ * rate limit always come from the current API_KEYS - removing a key
+ * revokes its sessions too.
+ *
+ * Scopes:
+ * - ticks:read: market data, candles, health, metrics
+ * - subscriptions:manage: watchlist, alert and webhook changes
+ * - admin: socket lifecycle (start / stop, token rotation); implies every
+ *   other scope
+ *
+ * AUTH=off disables all checks (local development only).
+ */
+
+// =====================
+// Constants
+// =====================
+export const AUTH_SCOPES = ['ticks:read', 'subscriptions:manage', 'admin'] as const;
+
+export const SESSION_COOKIE = 'dhan_session';
+export const SESSION_TTL_SECONDS = Number(process.env.SESSION_TTL_SECONDS) || 12 * 60 * 60;
+
+const DEFAULT_RATE_LIMIT = Number(process.env.API_RATE_LIMIT) || 600; // requests per minute
+const RATE_LIMIT_WINDOW_MS = 60 * 1000;
+// Sign-in attempts per client IP per minute, so keys can't be guessed at speed
+const SIGN_IN_RATE_LIMIT = Number(process.env.SIGN_IN_RATE_LIMIT) || 10;
+// Proxies in front of the app that each append to X-Forwarded-For; with 0
+// the header is client-supplied and ignored
+const TRUSTED_PROXY_HOPS = Math.max(Math.floor(Number(process.env.TRUSTED_PROXY_HOPS) || 0), 0);
+// Expired windows are swept once this many are tracked
+const MAX_RATE_WINDOWS = 10000;
+const MIN_KEY_LENGTH = 16;
+
+// =====================
+// Types
+// =====================
+export type AuthScope = (typeof AUTH_SCOPES)[number];
+
+interface ApiKey {
+  name: string;
+  // SHA-256 of the key, so lookups compare digests of equal length
+  digest: string;
+  scopes: AuthScope[];
+  rateLimit: number;
+}
+
+export interface AuthPrincipal {
+  name: string;
+  scopes: AuthScope[];
+  rateLimit: number;
+  via: 'api_key' | 'session';
+}
+
+export interface RouteAccess {
+  scope: AuthScope;
+  // Refuse session cookies, e.g. for state-changing GETs a cross-site link could trigger
+  apiKeyOnly: boolean;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  resetAt: number;
+}
+
+// Minimal header access shared by NextRequest, Request and the ws upgrade
+interface HeaderSource {
+  get(name: string): string | null;
+}
+
+// =====================
+// Route scopes
+// =====================
+
+// First match wins; null means public. Anything unlisted needs admin.
+const ROUTE_SCOPES: {
+  prefix: string;
+  methods?: string[];
+  scope: AuthScope | null;
+  apiKeyOnly?: boolean;
+}[] = [
+  { prefix: '/api/health/live', scope: null },
+  { prefix: '/api/health/ready', scope: null },
+  // Sign-in is limited per IP by the route itself (checkSignInRateLimit)
+  { prefix: '/api/auth', scope: null },
+  // GET is for the Vercel cron, which sends a bearer token
+  { prefix: '/api/start-dhan', methods: ['GET'], scope: 'admin', apiKeyOnly: true },
+  { prefix: '/api/start-dhan', scope: 'admin' },
+  { prefix: '/api/stop-dhan', scope: 'admin' },
+  { prefix: '/api/dhan-token', scope: 'admin' },
+  { prefix: '/api/subscriptions', methods: ['GET'], scope: 'ticks:read' },
+  { prefix: '/api/subscriptions', scope: 'subscriptions:manage' },
+  { prefix: '/api/alerts', methods: ['GET'], scope: 'ticks:read' },
+  { prefix: '/api/alerts', scope: 'subscriptions:manage' },
+  // Lists target URLs and manages secrets, so reading needs the write scope too
+  { prefix: '/api/webhooks', scope: 'subscriptions:manage' },
+  { prefix: '/api/ticks', scope: 'ticks:read' },
+  { prefix: '/api/candles', scope: 'ticks:read' },
+  { prefix: '/api/instruments', scope: 'ticks:read' },
+  { prefix: '/api/option-chain', scope: 'ticks:read' },
+  { prefix: '/api/ws', scope: 'ticks:read' },
+  { prefix: '/api/health', scope: 'ticks:read' },
+  { prefix: '/api/metrics', scope: 'ticks:read' },
+];
+
+// =====================
+// State
+// =====================
+let keysSource: string | undefined;
+let keysPromise: Promise<ApiKey[]> | null = null;
+let warnedNoKeys = false;
+
+const rateWindows = new Map<string, { startedAt: number; count: number }>();
+
+// =====================
+// Helpers
+// =====================
+const encoder = new TextEncoder();
+
+function toBase64Url(bytes: Uint8Array) {
+  let binary = '';
+  bytes.forEach(byte => (binary += String.fromCharCode(byte)));
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(value: string) {
+  const binary = atob(value.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+}
+
+async function sha256Hex(value: string) {
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', encoder.encode(value)));
+  return Array.from(digest, byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+function timingSafeEqual(a: string, b: string) {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  return diff === 0;
+}
+
+function sessionKey(secret: string) {
+  return crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign', 'verify']
+  );
+}
+
+function readCookie(header: string | null, name: string): string | null {
+  if (!header) return null;
+  for (const part of header.split(';')) {
+    const [cookieName, ...value] = part.trim().split('=');
+    if (cookieName === name) return decodeURIComponent(value.join('='));
+  }
+  return null;
+}
+
+function isAuthScope(value: unknown): value is AuthScope {
+  return AUTH_SCOPES.includes(value as AuthScope);
+}
+
+async function parseApiKeys(raw: string | undefined): Promise<ApiKey[]> {
+  if (!raw) return [];
+
+  let entries: unknown;
+  try {
+    entries = JSON.parse(raw);
+  } catch {
+    console.error('[Auth] ❌ API_KEYS is not valid JSON; no keys loaded');
+    return [];
+  }
+  if (!Array.isArray(entries)) {
+    console.error('[Auth] ❌ API_KEYS must be a JSON array; no keys loaded');
+    return [];
+  }
+
+  const keys: ApiKey[] = [];
+  for (const entry of entries as Record<string, unknown>[]) {
+    const name = typeof entry?.name === 'string' ? entry.name.trim() : '';
+    const key = typeof entry?.key === 'string' ? entry.key : '';
+    const scopes = Array.isArray(entry?.scopes) ? entry.scopes : [];
+
+    if (!name || key.length < MIN_KEY_LENGTH || !scopes.every(isAuthScope)) {
+      console.error(
+        `[Auth] ❌ Skipping API key "${name || '?'}": needs a name, a key of at least ${MIN_KEY_LENGTH} characters and scopes from ${AUTH_SCOPES.join(', ')}`
+      );
+      continue;
+    }
+
+    const rateLimit = Number(entry.rateLimit);
+    keys.push({
+      name,
+      digest: await sha256Hex(key),
+      scopes,
+      rateLimit: Number.isFinite(rateLimit) && rateLimit > 0 ? rateLimit : DEFAULT_RATE_LIMIT,
+    });
+  }
+  return keys;
+}
+
+function getApiKeys(): Promise<ApiKey[]> {
+  const raw = process.env.API_KEYS;
+  if (!keysPromise || raw !== keysSource) {
+    keysSource = raw;
+    keysPromise = parseApiKeys(raw);
+  }
+  return keysPromise;
+}
+
+function toPrincipal(key: ApiKey, via: AuthPrincipal['via']): AuthPrincipal {
+  return { name: key.name, scopes: key.scopes, rateLimit: key.rateLimit, via };
+}
+
+// =====================
+// Public API
+// =====================
+export function isAuthEnabled() {
+  return process.env.AUTH !== 'off';
+}
+
+/**
+ * What a request needs; null for public routes
+ */
+export function routeAccess(pathname: string, method: string): RouteAccess | null {
+  const route = ROUTE_SCOPES.find(
+    candidate =>
+      (pathname === candidate.prefix || pathname.startsWith(`${candidate.prefix}/`)) &&
+      (!candidate.methods || candidate.methods.includes(method))
+  );
+  if (!route) return { scope: 'admin', apiKeyOnly: false };
+  return route.scope ? { scope: route.scope, apiKeyOnly: route.apiKeyOnly ?? false } : null;
+}
+
+export function hasScope(principal: AuthPrincipal, scope: AuthScope) {
+  return principal.scopes.includes('admin') || principal.scopes.includes(scope);
+}
+
+/**
+ * Look up an API key; null if it isn't configured
+ */
+export async function verifyApiKey(key: string): Promise<AuthPrincipal | null> {
+  const keys = await getApiKeys();
+  if (keys.length === 0 && !warnedNoKeys) {
+    warnedNoKeys = true;
+    console.warn('[Auth] ⚠️ No API_KEYS configured; only public routes are reachable');
+  }
+
+  const digest = await sha256Hex(key);
+  const match = keys.find(candidate => timingSafeEqual(candidate.digest, digest));
+  return match ? toPrincipal(match, 'api_key') : null;
+}
+
+/**
+ * Sign a session cookie value for an API key's name
+ * @throws Error if SESSION_SECRET is not set
+ */
+export async function createSessionToken(name: string, ttlSeconds = SESSION_TTL_SECONDS) {
+  const secret = process.env.SESSION_SECRET;
+  if (!secret) {
+    throw new Error('SESSION_SECRET is not set');
+  }
+
+  const expiresAt = Math.floor(Date.now() / 1000) + ttlSeconds;
+  const payload = toBase64Url(encoder.encode(JSON.stringify({ sub: name, exp: expiresAt })));
+  const signature = await crypto.subtle.sign('HMAC', await sessionKey(secret), encoder.encode(payload));
+
+  return { token: `${payload}.${toBase64Url(new Uint8Array(signature))}`, expiresAt };
+}
+
+/**
+ * Resolve a session cookie value to its key; null if the signature is
+ * wrong, the session has expired or the key has been removed
+ */
+export async function verifySessionToken(token: string): Promise<AuthPrincipal | null> {
+  const secret = process.env.SESSION_SECRET;
+  const [payload, signature] = token.split('.');
+  if (!secret || !payload || !signature) return null;
+
+  try {
+    const valid = await crypto.subtle.verify(
+      'HMAC',
+      await sessionKey(secret),
+      fromBase64Url(signature),
+      encoder.encode(payload)
+    );
+    if (!valid) return null;
+
+    const session = JSON.parse(new TextDecoder().decode(fromBase64Url(payload))) as {
+      sub?: string;
+      exp?: number;
+    };
+    if (!session.sub || !session.exp || session.exp * 1000 < Date.now()) return null;
+
+    const key = (await getApiKeys()).find(candidate => candidate.name === session.sub);
+    return key ? toPrincipal(key, 'session') : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Identify the caller from an API key header or the session cookie
+ */
+export async function authenticate(headers: HeaderSource): Promise<AuthPrincipal | null> {
+  const authorization = headers.get('authorization');
+  const apiKey = authorization?.match(/^Bearer\s+(.+)$/i)?.[1] ?? headers.get('x-api-key');
+  if (apiKey) return verifyApiKey(apiKey.trim());
+
+  const session = readCookie(headers.get('cookie'), SESSION_COOKIE);
+  return session ? verifySessionToken(session) : null;
+}
+
+function countRequest(bucket: string, limit: number, now: number): RateLimitResult {
+  if (rateWindows.size >= MAX_RATE_WINDOWS) {
+    rateWindows.forEach((window, key) => {
+      if (now - window.startedAt >= RATE_LIMIT_WINDOW_MS) rateWindows.delete(key);
+    });
+  }
+
+  let window = rateWindows.get(bucket);
+  if (!window || now - window.startedAt >= RATE_LIMIT_WINDOW_MS) {
+    window = { startedAt: now, count: 0 };
+    rateWindows.set(bucket, window);
+  }
+
+  const allowed = window.count < limit;
+  if (allowed) window.count++;
+
+  return {
+    allowed,
+    limit,
+    remaining: Math.max(limit - window.count, 0),
+    resetAt: window.startedAt + RATE_LIMIT_WINDOW_MS,
+  };
+}
+
+/**
+ * Count a request against the principal's per-minute limit
+ * Sessions share their key's budget. Counters are per process (or per
+ * Edge instance), not global.
+ */
+export function checkRateLimit(principal: AuthPrincipal, now = Date.now()): RateLimitResult {
+  return countRequest(`key:${principal.name}`, principal.rateLimit, now);
+}
+
+/**
+ * Client IP as seen by the outermost trusted proxy, else as the platform
+ * reports it (NextRequest.ip). Without either, every client shares one
+ * "unknown" bucket - stricter, but not bypassable.
+ */
+function clientIp(request: { headers: HeaderSource; ip?: string }) {
+  if (TRUSTED_PROXY_HOPS > 0) {
+    const hops = (request.headers.get('x-forwarded-for') ?? '')
+      .split(',')
+      .map(hop => hop.trim())
+      .filter(Boolean);
+    // Entries left of the ones our proxies appended are whatever the client sent
+    const ip = hops[hops.length - TRUSTED_PROXY_HOPS];
+    if (ip) return ip;
+  }
+  return request.ip || 'unknown';
+}
+
+/**
+ * Count a sign-in attempt against the client IP's per-minute limit
+ */
+export function checkSignInRateLimit(
+  request: { headers: HeaderSource; ip?: string },
+  now = Date.now()
+): RateLimitResult {
+  return countRequest(`sign-in:${clientIp(request)}`, SIGN_IN_RATE_LIMIT, now);
+}
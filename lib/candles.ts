@@ -0,0 +1,272 @@
+/**
+ * Streaming OHLCV candle aggregator
+ *
+ * Fed from the tick path in dhanSocket.ts. Builds 1m, 5m, 15m and 1h bars
+ * per security in IST exchange time: bars are anchored at the 09:15 IST
+ * session open, so hourly bars run 09:15-10:15, 10:15-11:15, ...
+ *
+ * A timer closes bars on time even when no tick arrives (on the
+ * recording's clock during a replay). Closed bars are kept in a bounded
+ * in-memory history and announced to listeners.
+ */
+
+// =====================
+// Constants
+// =====================
+export const CANDLE_INTERVALS = {
+  '1m': 60,
+  '5m': 5 * 60,
+  '15m': 15 * 60,
+  '1h': 60 * 60,
+} as const;
+
+export type CandleInterval = keyof typeof CANDLE_INTERVALS;
+
+// 09:15 IST expressed in UTC seconds since midnight (03:45 UTC)
+const SESSION_ANCHOR_SECONDS = 3 * 3600 + 45 * 60;
+
+const HISTORY_LIMIT = Number(process.env.CANDLE_HISTORY_LIMIT) || 500;
+const ROLLOVER_CHECK_MS = 1000;
+
+// =====================
+// Types
+// =====================
+export interface Candle {
+  securityId: number;
+  symbol: string;
+  interval: CandleInterval;
+  start: number; // Unix seconds
+  end: number; // Unix seconds (exclusive)
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+  ticks: number;
+  closed: boolean;
+}
+
+export interface CandleTick {
+  securityId: number;
+  symbol: string;
+  price: number;
+  timestamp: number; // Unix seconds
+  volume?: number; // Cumulative day volume (Quote / Full mode)
+}
+
+interface CandleSeries {
+  current: Candle | null;
+  history: Candle[];
+}
+
+type CandleListener = (candle: Candle) => void;
+
+// =====================
+// State
+// =====================
+// securityId -> interval -> series
+const seriesStore = new Map<number, Map<CandleInterval, CandleSeries>>();
+const symbolToSecurityId = new Map<string, number>();
+const lastCumulativeVolume = new Map<number, number>();
+const listeners = new Set<CandleListener>();
+
+let rolloverTimer: NodeJS.Timeout | null = null;
+
+const wallClock = () => Math.floor(Date.now() / 1000);
+
+// Clock used for rollover without ticks (see setCandleClock)
+let clock: () => number = wallClock;
+
+// =====================
+// Helpers
+// =====================
+export function isCandleInterval(value: string): value is CandleInterval {
+  // Own keys only: "toString" and friends are `in` every object
+  return Object.prototype.hasOwnProperty.call(CANDLE_INTERVALS, value);
+}
+
+/**
+ * Start of the bar containing `timestamp` (also used by the symbol page to
+ * extend the forming bar between `candle` events)
+ * @param size - Bar length in seconds
+ */
+export function bucketStart(timestamp: number, size: number): number {
+  return (
+    SESSION_ANCHOR_SECONDS +
+    Math.floor((timestamp - SESSION_ANCHOR_SECONDS) / size) * size
+  );
+}
+
+function getSeries(securityId: number, interval: CandleInterval): CandleSeries {
+  let byInterval = seriesStore.get(securityId);
+  if (!byInterval) {
+    byInterval = new Map();
+    seriesStore.set(securityId, byInterval);
+  }
+
+  let series = byInterval.get(interval);
+  if (!series) {
+    series = { current: null, history: [] };
+    byInterval.set(interval, series);
+  }
+  return series;
+}
+
+function closeCandle(series: CandleSeries) {
+  const candle = series.current;
+  if (!candle) return;
+
+  candle.closed = true;
+  series.current = null;
+  series.history.push(candle);
+  if (series.history.length > HISTORY_LIMIT) {
+    series.history.splice(0, series.history.length - HISTORY_LIMIT);
+  }
+
+  listeners.forEach((listener) => {
+    try {
+      listener(candle);
+    } catch (error) {
+      console.error('[Candles] Error in candle listener:', error);
+    }
+  });
+}
+
+function volumeDelta(tick: CandleTick): number {
+  if (tick.volume === undefined) return 0;
+
+  const previous = lastCumulativeVolume.get(tick.securityId);
+  lastCumulativeVolume.set(tick.securityId, tick.volume);
+
+  // First tick of the process, or day volume reset at a new session
+  if (previous === undefined || tick.volume < previous) return 0;
+  return tick.volume - previous;
+}
+
+// =====================
+// Aggregation
+// =====================
+
+/**
+ * Apply a tick to every interval for its security
+ * Ticks older than the current bar are ignored
+ */
+export function recordTick(tick: CandleTick) {
+  if (!Number.isFinite(tick.price) || tick.price <= 0) return;
+
+  symbolToSecurityId.set(tick.symbol, tick.securityId);
+  const volume = volumeDelta(tick);
+
+  for (const interval of Object.keys(CANDLE_INTERVALS) as CandleInterval[]) {
+    const size = CANDLE_INTERVALS[interval];
+    const series = getSeries(tick.securityId, interval);
+    const start = bucketStart(tick.timestamp, size);
+
+    if (series.current && start > series.current.start) {
+      closeCandle(series);
+    }
+
+    const candle = series.current;
+    if (!candle) {
+      const last = series.history[series.history.length - 1];
+      if (last && start <= last.start) continue; // late tick for a closed bar
+
+      series.current = {
+        securityId: tick.securityId,
+        symbol: tick.symbol,
+        interval,
+        start,
+        end: start + size,
+        open: tick.price,
+        high: tick.price,
+        low: tick.price,
+        close: tick.price,
+        volume,
+        ticks: 1,
+        closed: false,
+      };
+      continue;
+    }
+
+    if (start < candle.start) continue;
+
+    candle.high = Math.max(candle.high, tick.price);
+    candle.low = Math.min(candle.low, tick.price);
+    candle.close = tick.price;
+    candle.volume += volume;
+    candle.ticks += 1;
+  }
+
+  ensureRolloverTimer();
+}
+
+/**
+ * Close every open bar whose end time has passed
+ * @param now - Unix seconds; defaults to the candle clock
+ */
+export function rolloverCandles(now: number = clock()) {
+  seriesStore.forEach((byInterval) => {
+    byInterval.forEach((series) => {
+      if (series.current && now >= series.current.end) {
+        closeCandle(series);
+      }
+    });
+  });
+}
+
+function ensureRolloverTimer() {
+  if (rolloverTimer) return;
+  rolloverTimer = setInterval(() => rolloverCandles(), ROLLOVER_CHECK_MS);
+  // Don't keep the process alive just for candle rollover
+  rolloverTimer.unref?.();
+}
+
+// =====================
+// Public API
+// =====================
+export function onCandleClose(listener: CandleListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function resolveCandleSecurityId(symbol: string): number | undefined {
+  return symbolToSecurityId.get(symbol);
+}
+
+/**
+ * Bars for a security, oldest first, including the open bar (closed: false)
+ * @param from - Only bars starting at or after this Unix time (seconds)
+ */
+export function getCandles(
+  securityId: number,
+  interval: CandleInterval,
+  from?: number
+): Candle[] {
+  const series = seriesStore.get(securityId)?.get(interval);
+  if (!series) return [];
+
+  const bars = series.current ? [...series.history, series.current] : [...series.history];
+  return from === undefined ? bars : bars.filter(bar => bar.start >= from);
+}
+
+// =====================
+// Replay Clock
+// =====================
+
+/**
+ * Roll bars over on another clock than the wall clock; replay mode in
+ * dhanSocket.ts passes the recording's time, so bars close as they did live
+ * @param nextClock - Returns the current time in Unix seconds
+ */
+export function setCandleClock(nextClock: () => number) {
+  clock = nextClock;
+}
+
+/**
+ * Back to the wall clock once a replay ends
+ */
+export function resetCandleClock() {
+  clock = wallClock;
+}
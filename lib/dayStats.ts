@@ -0,0 +1,162 @@
+/**
+ * Previous close and day change per instrument
+ *
+ * Fed from the tick path in dhanSocket.ts. Each security keeps the open,
+ * high and low of its current trading day (IST date of the exchange
+ * timestamp, so replays behave like live sessions); the first tick of a new
+ * day starts a fresh record.
+ *
+ * Previous close comes from the Prev Close packet (response code 6), which
+ * Dhan sends when an instrument is subscribed. A packet counts for a new day
+ * only if it arrived after the last tick of the previous one - otherwise it
+ * is yesterday's value - and the day's first tick stands in until one does.
+ * prevCloseSource tells the two apart, so consumers that need a real close
+ * (e.g. alerts) can skip the stand-in.
+ */
+
+// =====================
+// Constants
+// =====================
+const IST_OFFSET_SECONDS = 330 * 60;
+
+// =====================
+// Types
+// =====================
+export type PrevCloseSource = 'packet' | 'first_tick';
+// 'exchange' when a Quote / Full packet carried the open; 'first_tick' is
+// only the first price seen, which may be long after the open
+export type DayOpenSource = 'exchange' | 'first_tick';
+
+export interface DayChange {
+  prevClose: number;
+  prevCloseSource: PrevCloseSource;
+  change: number;
+  changePercent: number;
+  dayOpen: number;
+  dayOpenSource: DayOpenSource;
+  dayHigh: number;
+  dayLow: number;
+}
+
+export interface DayTick {
+  securityId: number;
+  price: number;
+  timestamp: number; // Unix seconds
+  // Exchange's day values (Quote / Full mode)
+  open?: number;
+  high?: number;
+  low?: number;
+}
+
+interface DayState {
+  date: string;
+  prevClose: number;
+  prevCloseSource: PrevCloseSource;
+  dayOpen: number;
+  dayOpenSource: DayOpenSource;
+  dayHigh: number;
+  dayLow: number;
+  // Wall clock of the last tick, to tell fresh Prev Close packets from stale ones
+  lastTickAt: number;
+}
+
+// =====================
+// State
+// =====================
+const prevClosePackets = new Map<number, { prevClose: number; receivedAt: number }>();
+const dayStates = new Map<number, DayState>();
+
+// =====================
+// Helpers
+// =====================
+function istDate(timestamp: number) {
+  return new Date((timestamp + IST_OFFSET_SECONDS) * 1000).toISOString().slice(0, 10);
+}
+
+function round2(value: number) {
+  return Math.round(value * 100) / 100;
+}
+
+function toDayChange(state: DayState, price: number): DayChange {
+  const change = price - state.prevClose;
+  return {
+    prevClose: state.prevClose,
+    prevCloseSource: state.prevCloseSource,
+    change: round2(change),
+    changePercent: round2((change / state.prevClose) * 100),
+    dayOpen: state.dayOpen,
+    dayOpenSource: state.dayOpenSource,
+    dayHigh: state.dayHigh,
+    dayLow: state.dayLow,
+  };
+}
+
+function startDay(tick: DayTick, date: string, previous: DayState | undefined): DayState {
+  const packet = prevClosePackets.get(tick.securityId);
+  const fresh = packet !== undefined && (!previous || packet.receivedAt > previous.lastTickAt);
+  const dayOpen = tick.open || tick.price;
+
+  return {
+    date,
+    prevClose: fresh ? packet.prevClose : dayOpen,
+    prevCloseSource: fresh ? 'packet' : 'first_tick',
+    dayOpen,
+    dayOpenSource: tick.open ? 'exchange' : 'first_tick',
+    dayHigh: tick.price,
+    dayLow: tick.price,
+    lastTickAt: Date.now(),
+  };
+}
+
+// =====================
+// Public API
+// =====================
+
+/**
+ * Record a Prev Close packet
+ * Also applied to the current record, replacing a first-tick fallback
+ */
+export function notePrevClose(securityId: number, prevClose: number) {
+  if (!(prevClose > 0)) return;
+
+  prevClosePackets.set(securityId, { prevClose, receivedAt: Date.now() });
+
+  const state = dayStates.get(securityId);
+  if (state) {
+    state.prevClose = prevClose;
+    state.prevCloseSource = 'packet';
+  }
+}
+
+/**
+ * Apply a trade tick and return the day-change fields for it
+ */
+export function recordDayTick(tick: DayTick): DayChange {
+  const date = istDate(tick.timestamp);
+  let state = dayStates.get(tick.securityId);
+
+  if (!state || state.date !== date) {
+    state = startDay(tick, date, state);
+    dayStates.set(tick.securityId, state);
+  }
+
+  // The exchange's own open / high / low win over what we have seen
+  if (tick.open && tick.open > 0) {
+    state.dayOpen = tick.open;
+    state.dayOpenSource = 'exchange';
+  }
+  state.dayHigh = Math.max(state.dayHigh, tick.price, tick.high || 0);
+  state.dayLow = Math.min(state.dayLow, tick.price, tick.low || Infinity);
+  state.lastTickAt = Date.now();
+
+  return toDayChange(state, tick.price);
+}
+
+/**
+ * Day-change fields for a price without recording a tick (e.g. when a
+ * late Prev Close packet changes the reference); null before the first tick
+ */
+export function getDayChange(securityId: number, price: number): DayChange | null {
+  const state = dayStates.get(securityId);
+  return state ? toDayChange(state, price) : null;
+}
@@ -0,0 +1,283 @@
+/**
+ * Dhan access token provider
+ *
+ * Dhan access tokens expire daily, so the token is looked up on every
+ * connect instead of once at startup. DHAN_TOKEN_SOURCE picks where from:
+ * - env: DHAN_ACCESS_TOKEN (the default)
+ * - file: DHAN_ACCESS_TOKEN_FILE, e.g. a mounted secret; setting the path
+ *   alone selects this source
+ * - firestore: the config/dhanCredentials document ({ accessToken, clientId? })
+ * The client ID comes from DHAN_CLIENT_ID unless the Firestore document has one.
+ *
+ * A token set through /api/dhan-token is written back to the file or
+ * document where possible, and used until the source has a newer one. A
+ * client ID set with it is kept for the file source until restart.
+ */
+import { promises as fs } from 'fs';
+import { getFirestoreServer } from './firebaseServer';
+
+// =====================
+// Constants
+// =====================
+const TOKEN_SOURCES = ['env', 'file', 'firestore'] as const;
+
+const CREDENTIALS_COLLECTION = 'config';
+const CREDENTIALS_DOC = 'dhanCredentials';
+
+// How often file / Firestore are checked for a new token after an auth failure
+const TOKEN_POLL_INTERVAL_MS = Number(process.env.DHAN_TOKEN_POLL_MS) || 60 * 1000;
+
+// =====================
+// Types
+// =====================
+export type DhanTokenSource = (typeof TOKEN_SOURCES)[number];
+
+export interface DhanCredentials {
+  clientId: string;
+  accessToken: string;
+}
+
+export interface DhanCredentialStatus {
+  source: DhanTokenSource;
+  // 'api' while a token set through /api/dhan-token is in use
+  loadedFrom: DhanTokenSource | 'api' | null;
+  loadedAt: number | null;
+  clientId: string | null;
+  // Last characters of the token, to tell tokens apart without exposing them
+  tokenHint: string | null;
+  // From the token's JWT `exp` claim, when it has one
+  expiresAt: number | null;
+  lastError: string | null;
+}
+
+interface StoredCredentials {
+  credentials: DhanCredentials | null;
+  // When the source last changed (0 when unknown)
+  updatedAt: number;
+}
+
+// =====================
+// State
+// =====================
+const tokenSource = resolveTokenSource();
+
+let override: (DhanCredentials & { setAt: number }) | null = null;
+// Client ID posted through /api/dhan-token; the file holds only the token,
+// so this stays paired with whatever token the file has next
+let postedClientId: string | null = null;
+let status: DhanCredentialStatus = {
+  source: tokenSource,
+  loadedFrom: null,
+  loadedAt: null,
+  clientId: null,
+  tokenHint: null,
+  expiresAt: null,
+  lastError: null,
+};
+
+// =====================
+// Helpers
+// =====================
+function resolveTokenSource(): DhanTokenSource {
+  const configured = process.env.DHAN_TOKEN_SOURCE;
+  if (TOKEN_SOURCES.includes(configured as DhanTokenSource)) return configured as DhanTokenSource;
+
+  if (configured) {
+    console.warn(`[DhanCredentials] Unknown DHAN_TOKEN_SOURCE "${configured}" - using the default`);
+  }
+  return process.env.DHAN_ACCESS_TOKEN_FILE ? 'file' : 'env';
+}
+
+function tokenFile() {
+  const file = process.env.DHAN_ACCESS_TOKEN_FILE;
+  if (!file) {
+    throw new Error('DHAN_ACCESS_TOKEN_FILE must be set for the file token source');
+  }
+  return file;
+}
+
+function toCredentials(clientId: unknown, accessToken: unknown): DhanCredentials | null {
+  if (typeof clientId !== 'string' || typeof accessToken !== 'string') return null;
+  if (!clientId.trim() || !accessToken.trim()) return null;
+  return { clientId: clientId.trim(), accessToken: accessToken.trim() };
+}
+
+/**
+ * Expiry from a JWT access token's payload; null for other token formats
+ */
+function tokenExpiresAt(token: string): number | null {
+  try {
+    const payload = JSON.parse(Buffer.from(token.split('.')[1] ?? '', 'base64url').toString());
+    return typeof payload.exp === 'number' ? payload.exp * 1000 : null;
+  } catch {
+    return null;
+  }
+}
+
+async function readSource(): Promise<StoredCredentials> {
+  const envClientId = process.env.DHAN_CLIENT_ID;
+
+  switch (tokenSource) {
+    case 'env':
+      return { credentials: toCredentials(envClientId, process.env.DHAN_ACCESS_TOKEN), updatedAt: 0 };
+
+    case 'file': {
+      const file = tokenFile();
+      try {
+        const [token, stats] = await Promise.all([fs.readFile(file, 'utf8'), fs.stat(file)]);
+        return { credentials: toCredentials(postedClientId ?? envClientId, token), updatedAt: stats.mtimeMs };
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return { credentials: null, updatedAt: 0 };
+        throw error;
+      }
+    }
+
+    case 'firestore': {
+      const db = getFirestoreServer();
+      if (!db) {
+        throw new Error('Firestore not initialized');
+      }
+
+      const snapshot = await db.collection(CREDENTIALS_COLLECTION).doc(CREDENTIALS_DOC).get();
+      const data = snapshot.data() ?? {};
+      return {
+        credentials: toCredentials(data.clientId ?? envClientId, data.accessToken),
+        updatedAt: data.updatedAt?.toMillis?.() ?? 0,
+      };
+    }
+  }
+}
+
+async function writeSource(credentials: DhanCredentials) {
+  switch (tokenSource) {
+    case 'env':
+      return false;
+
+    case 'file':
+      await fs.writeFile(tokenFile(), `${credentials.accessToken}\n`, { mode: 0o600 });
+      return true;
+
+    case 'firestore': {
+      const db = getFirestoreServer();
+      if (!db) {
+        throw new Error('Firestore not initialized');
+      }
+
+      await db.collection(CREDENTIALS_COLLECTION).doc(CREDENTIALS_DOC).set(
+        { ...credentials, updatedAt: new Date() },
+        { merge: true }
+      );
+      return true;
+    }
+  }
+}
+
+function noteLoaded(credentials: DhanCredentials, from: DhanCredentialStatus['loadedFrom']) {
+  status = {
+    ...status,
+    loadedFrom: from,
+    loadedAt: Date.now(),
+    clientId: credentials.clientId,
+    tokenHint: `…${credentials.accessToken.slice(-4)}`,
+    expiresAt: tokenExpiresAt(credentials.accessToken),
+    lastError: null,
+  };
+}
+
+// =====================
+// Public API
+// =====================
+
+/**
+ * Current credentials, read fresh from the source
+ * Resolves to null when no client ID / token is configured
+ * @throws Error if the source can't be read (e.g. Firestore unreachable)
+ */
+export async function loadDhanCredentials(): Promise<DhanCredentials | null> {
+  let stored: StoredCredentials;
+  try {
+    stored = await readSource();
+  } catch (error) {
+    status.lastError = error instanceof Error ? error.message : String(error);
+    if (!override) throw error;
+    stored = { credentials: null, updatedAt: 0 };
+  }
+
+  // A token set through the API wins until the source changes after it
+  if (override && (!stored.credentials || stored.updatedAt <= override.setAt)) {
+    const { clientId, accessToken } = override;
+    noteLoaded(override, 'api');
+    return { clientId, accessToken };
+  }
+
+  override = null;
+  if (stored.credentials) noteLoaded(stored.credentials, tokenSource);
+  return stored.credentials;
+}
+
+/**
+ * Replace the access token (and optionally the client ID)
+ * @returns Whether the token was written back to the file / Firestore source
+ * @throws Error if the token or client ID is invalid, or no client ID is known
+ */
+export async function setDhanCredentials(input: { accessToken?: unknown; clientId?: unknown }) {
+  if (typeof input.accessToken !== 'string' || !input.accessToken.trim()) {
+    throw new Error('accessToken is required');
+  }
+  if (/\s/.test(input.accessToken.trim())) {
+    throw new Error('accessToken must not contain whitespace');
+  }
+  if (input.clientId !== undefined && (typeof input.clientId !== 'string' || !input.clientId.trim())) {
+    throw new Error('clientId must be a non-empty string');
+  }
+
+  const clientId = input.clientId ?? status.clientId ?? process.env.DHAN_CLIENT_ID;
+  const credentials = toCredentials(clientId, input.accessToken);
+  if (!credentials) {
+    throw new Error('clientId is required (DHAN_CLIENT_ID is not set)');
+  }
+
+  if (input.clientId !== undefined) postedClientId = credentials.clientId;
+  override = { ...credentials, setAt: Date.now() };
+  noteLoaded(credentials, 'api');
+
+  try {
+    const persisted = await writeSource(credentials);
+    if (persisted) console.log(`[DhanCredentials] ✅ New access token saved to ${tokenSource}`);
+    return persisted;
+  } catch (error) {
+    status.lastError = error instanceof Error ? error.message : String(error);
+    console.error(`[DhanCredentials] ❌ Could not save the access token to ${tokenSource}:`, error);
+    return false;
+  }
+}
+
+/**
+ * Poll the file / Firestore source until it holds a token other than
+ * `rejectedToken`, then call onChange once. A no-op for the env source,
+ * which can only change through setDhanCredentials.
+ * @returns Function that stops polling
+ */
+export function watchDhanCredentials(rejectedToken: string | null, onChange: () => void) {
+  if (tokenSource === 'env') return () => {};
+
+  const timer = setInterval(() => {
+    loadDhanCredentials()
+      .then((credentials) => {
+        if (!credentials || credentials.accessToken === rejectedToken) return;
+        clearInterval(timer);
+        console.log(`[DhanCredentials] New access token found in ${tokenSource}`);
+        onChange();
+      })
+      .catch((error) => {
+        console.error('[DhanCredentials] ❌ Error checking for a new access token:', error);
+      });
+  }, TOKEN_POLL_INTERVAL_MS);
+  timer.unref?.();
+
+  return () => clearInterval(timer);
+}
+
+export function getDhanCredentialStatus(): DhanCredentialStatus {
+  return { ...status };
+}
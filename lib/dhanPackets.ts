@@ -0,0 +1,523 @@
+/**
+ * Dhan market feed (v2) binary packet decoder
+ *
+ * Every packet starts with an 8-byte response header:
+ * - Byte 0: Feed Response Code
+ * - Bytes 1-2: Message Length of the whole packet (little-endian)
+ * - Byte 3: Exchange Segment
+ * - Bytes 4-7: Security ID (little-endian, unsigned int)
+ *
+ * A single WebSocket frame may carry several packets back to back,
+ * so decoding walks the frame using each header's message length.
+ *
+ * Also holds the outbound JSON request codes used to subscribe in
+ * Ticker, Quote or Full mode.
+ */
+
+import type { DhanFeedMode } from '../stockCodes';
+
+// =====================
+// Response Codes & Segments
+// =====================
+export const FEED_RESPONSE_CODE = {
+  TICKER: 2,
+  QUOTE: 4,
+  OI: 5,
+  PREV_CLOSE: 6,
+  MARKET_STATUS: 7,
+  FULL: 8,
+  DISCONNECT: 50,
+} as const;
+
+export type FeedResponseCode =
+  (typeof FEED_RESPONSE_CODE)[keyof typeof FEED_RESPONSE_CODE];
+
+export const RESPONSE_CODE_LABELS: Record<number, string> = {
+  [FEED_RESPONSE_CODE.TICKER]: 'LTP',
+  [FEED_RESPONSE_CODE.QUOTE]: 'QUOTE',
+  [FEED_RESPONSE_CODE.OI]: 'OI',
+  [FEED_RESPONSE_CODE.PREV_CLOSE]: 'PREV_CLOSE',
+  [FEED_RESPONSE_CODE.MARKET_STATUS]: 'MARKET_STATUS',
+  [FEED_RESPONSE_CODE.FULL]: 'FULL',
+  [FEED_RESPONSE_CODE.DISCONNECT]: 'DISCONNECT',
+};
+
+export function responseCodeLabel(code: number): string {
+  return RESPONSE_CODE_LABELS[code] ?? `TYPE_${code}`;
+}
+
+// Outbound JSON request codes
+export const FEED_REQUEST_CODE = {
+  SUBSCRIBE_TICKER: 15,
+  UNSUBSCRIBE_TICKER: 16,
+  SUBSCRIBE_QUOTE: 17,
+  UNSUBSCRIBE_QUOTE: 18,
+  SUBSCRIBE_FULL: 21,
+  UNSUBSCRIBE_FULL: 22,
+  DISCONNECT: 12,
+} as const;
+
+export const SUBSCRIBE_REQUEST_CODES: Record<DhanFeedMode, number> = {
+  ticker: FEED_REQUEST_CODE.SUBSCRIBE_TICKER,
+  quote: FEED_REQUEST_CODE.SUBSCRIBE_QUOTE,
+  full: FEED_REQUEST_CODE.SUBSCRIBE_FULL,
+};
+
+export const UNSUBSCRIBE_REQUEST_CODES: Record<DhanFeedMode, number> = {
+  ticker: FEED_REQUEST_CODE.UNSUBSCRIBE_TICKER,
+  quote: FEED_REQUEST_CODE.UNSUBSCRIBE_QUOTE,
+  full: FEED_REQUEST_CODE.UNSUBSCRIBE_FULL,
+};
+
+// Numeric exchange segment as sent in byte 3 of the header
+export const EXCHANGE_SEGMENTS: Record<number, string> = {
+  0: 'IDX_I',
+  1: 'NSE_EQ',
+  2: 'NSE_FNO',
+  3: 'NSE_CURRENCY',
+  4: 'BSE_EQ',
+  5: 'MCX_COMM',
+  7: 'BSE_CURRENCY',
+  8: 'BSE_FNO',
+};
+
+export function exchangeSegmentName(code: number): string {
+  return EXCHANGE_SEGMENTS[code] ?? `SEGMENT_${code}`;
+}
+
+// Reason codes carried by a Disconnect (50) packet
+export const DISCONNECT_CODES = {
+  INTERNAL_SERVER_ERROR: 800,
+  INSTRUMENT_LIMIT_EXCEEDED: 804,
+  TOO_MANY_CONNECTIONS: 805,
+  DATA_API_NOT_SUBSCRIBED: 806,
+  ACCESS_TOKEN_EXPIRED: 807,
+  AUTHENTICATION_FAILED: 808,
+  ACCESS_TOKEN_INVALID: 809,
+  CLIENT_ID_INVALID: 810,
+  INVALID_SECURITY_ID: 813,
+  INVALID_REQUEST: 814,
+} as const;
+
+export const DISCONNECT_REASONS: Record<number, string> = {
+  [DISCONNECT_CODES.INTERNAL_SERVER_ERROR]: 'Internal server error',
+  [DISCONNECT_CODES.INSTRUMENT_LIMIT_EXCEEDED]: 'Requested instruments exceed the limit',
+  [DISCONNECT_CODES.TOO_MANY_CONNECTIONS]: 'Connection limit exceeded',
+  [DISCONNECT_CODES.DATA_API_NOT_SUBSCRIBED]: 'Data APIs not subscribed',
+  [DISCONNECT_CODES.ACCESS_TOKEN_EXPIRED]: 'Access token expired',
+  [DISCONNECT_CODES.AUTHENTICATION_FAILED]: 'Authentication failed',
+  [DISCONNECT_CODES.ACCESS_TOKEN_INVALID]: 'Access token invalid',
+  [DISCONNECT_CODES.CLIENT_ID_INVALID]: 'Client ID invalid',
+  [DISCONNECT_CODES.INVALID_SECURITY_ID]: 'Invalid SecurityId',
+  [DISCONNECT_CODES.INVALID_REQUEST]: 'Invalid request',
+};
+
+// Disconnect codes that mean the token / client ID needs replacing
+export const AUTH_DISCONNECT_CODES: ReadonlySet<number> = new Set([
+  DISCONNECT_CODES.ACCESS_TOKEN_EXPIRED,
+  DISCONNECT_CODES.AUTHENTICATION_FAILED,
+  DISCONNECT_CODES.ACCESS_TOKEN_INVALID,
+  DISCONNECT_CODES.CLIENT_ID_INVALID,
+]);
+
+export function disconnectReason(code: number): string {
+  return DISCONNECT_REASONS[code] ?? `Disconnect code ${code}`;
+}
+
+// Minimum packet size (header included) per response code
+export const PACKET_SIZES: Record<FeedResponseCode, number> = {
+  [FEED_RESPONSE_CODE.TICKER]: 16,
+  [FEED_RESPONSE_CODE.QUOTE]: 50,
+  [FEED_RESPONSE_CODE.OI]: 12,
+  [FEED_RESPONSE_CODE.PREV_CLOSE]: 16,
+  [FEED_RESPONSE_CODE.MARKET_STATUS]: 8,
+  [FEED_RESPONSE_CODE.FULL]: 162,
+  [FEED_RESPONSE_CODE.DISCONNECT]: 10,
+};
+
+const HEADER_SIZE = 8;
+const DEPTH_LEVELS = 5;
+const DEPTH_LEVEL_SIZE = 20;
+
+// =====================
+// Packet Types
+// =====================
+export interface PacketHeader {
+  responseCode: number;
+  messageLength: number;
+  exchangeSegment: string;
+  securityId: number;
+}
+
+export interface DepthLevel {
+  bidQty: number;
+  askQty: number;
+  bidOrders: number;
+  askOrders: number;
+  bidPrice: number;
+  askPrice: number;
+}
+
+export interface TickerPacket extends PacketHeader {
+  kind: 'ticker';
+  ltp: number;
+  ltt: number;
+}
+
+export interface QuotePacket extends PacketHeader {
+  kind: 'quote';
+  ltp: number;
+  ltq: number;
+  ltt: number;
+  avgPrice: number;
+  volume: number;
+  totalSellQty: number;
+  totalBuyQty: number;
+  open: number;
+  close: number;
+  high: number;
+  low: number;
+}
+
+export interface OIPacket extends PacketHeader {
+  kind: 'oi';
+  openInterest: number;
+}
+
+export interface PrevClosePacket extends PacketHeader {
+  kind: 'prev_close';
+  prevClose: number;
+  prevOpenInterest: number;
+}
+
+export interface MarketStatusPacket extends PacketHeader {
+  kind: 'market_status';
+}
+
+export interface FullPacket extends PacketHeader {
+  kind: 'full';
+  ltp: number;
+  ltq: number;
+  ltt: number;
+  avgPrice: number;
+  volume: number;
+  totalSellQty: number;
+  totalBuyQty: number;
+  openInterest: number;
+  highestOpenInterest: number;
+  lowestOpenInterest: number;
+  open: number;
+  close: number;
+  high: number;
+  low: number;
+  depth: DepthLevel[];
+}
+
+export interface DisconnectPacket extends PacketHeader {
+  kind: 'disconnect';
+  disconnectCode: number;
+}
+
+export type FeedPacket =
+  | TickerPacket
+  | QuotePacket
+  | OIPacket
+  | PrevClosePacket
+  | MarketStatusPacket
+  | FullPacket
+  | DisconnectPacket;
+
+export interface PacketDecodeError {
+  offset: number;
+  responseCode: number | null;
+  reason: string;
+}
+
+export interface DecodedFrame {
+  packets: FeedPacket[];
+  errors: PacketDecodeError[];
+}
+
+// =====================
+// Decoding
+// =====================
+function readHeader(buffer: Buffer, offset: number): PacketHeader {
+  return {
+    responseCode: buffer.readUInt8(offset),
+    messageLength: buffer.readUInt16LE(offset + 1),
+    exchangeSegment: exchangeSegmentName(buffer.readUInt8(offset + 3)),
+    securityId: buffer.readUInt32LE(offset + 4),
+  };
+}
+
+function readDepth(buffer: Buffer, offset: number): DepthLevel[] {
+  const depth: DepthLevel[] = [];
+  for (let level = 0; level < DEPTH_LEVELS; level++) {
+    const base = offset + level * DEPTH_LEVEL_SIZE;
+    depth.push({
+      bidQty: buffer.readInt32LE(base),
+      askQty: buffer.readInt32LE(base + 4),
+      bidOrders: buffer.readInt16LE(base + 8),
+      askOrders: buffer.readInt16LE(base + 10),
+      bidPrice: buffer.readFloatLE(base + 12),
+      askPrice: buffer.readFloatLE(base + 16),
+    });
+  }
+  return depth;
+}
+
+/**
+ * Decode the packet body for a header that has already been length-checked
+ * @param buffer - Frame buffer
+ * @param offset - Offset of the packet header within the frame
+ * @param header - Parsed header
+ */
+function decodeBody(buffer: Buffer, offset: number, header: PacketHeader): FeedPacket | null {
+  const b = offset + HEADER_SIZE;
+
+  switch (header.responseCode) {
+    case FEED_RESPONSE_CODE.TICKER:
+      return {
+        ...header,
+        kind: 'ticker',
+        ltp: buffer.readFloatLE(b),
+        ltt: buffer.readInt32LE(b + 4),
+      };
+
+    case FEED_RESPONSE_CODE.QUOTE:
+      return {
+        ...header,
+        kind: 'quote',
+        ltp: buffer.readFloatLE(b),
+        ltq: buffer.readInt16LE(b + 4),
+        ltt: buffer.readInt32LE(b + 6),
+        avgPrice: buffer.readFloatLE(b + 10),
+        volume: buffer.readInt32LE(b + 14),
+        totalSellQty: buffer.readInt32LE(b + 18),
+        totalBuyQty: buffer.readInt32LE(b + 22),
+        open: buffer.readFloatLE(b + 26),
+        close: buffer.readFloatLE(b + 30),
+        high: buffer.readFloatLE(b + 34),
+        low: buffer.readFloatLE(b + 38),
+      };
+
+    case FEED_RESPONSE_CODE.OI:
+      return {
+        ...header,
+        kind: 'oi',
+        openInterest: buffer.readInt32LE(b),
+      };
+
+    case FEED_RESPONSE_CODE.PREV_CLOSE:
+      return {
+        ...header,
+        kind: 'prev_close',
+        prevClose: buffer.readFloatLE(b),
+        prevOpenInterest: buffer.readInt32LE(b + 4),
+      };
+
+    case FEED_RESPONSE_CODE.MARKET_STATUS:
+      return { ...header, kind: 'market_status' };
+
+    case FEED_RESPONSE_CODE.FULL:
+      return {
+        ...header,
+        kind: 'full',
+        ltp: buffer.readFloatLE(b),
+        ltq: buffer.readInt16LE(b + 4),
+        ltt: buffer.readInt32LE(b + 6),
+        avgPrice: buffer.readFloatLE(b + 10),
+        volume: buffer.readInt32LE(b + 14),
+        totalSellQty: buffer.readInt32LE(b + 18),
+        totalBuyQty: buffer.readInt32LE(b + 22),
+        openInterest: buffer.readInt32LE(b + 26),
+        highestOpenInterest: buffer.readInt32LE(b + 30),
+        lowestOpenInterest: buffer.readInt32LE(b + 34),
+        open: buffer.readFloatLE(b + 38),
+        close: buffer.readFloatLE(b + 42),
+        high: buffer.readFloatLE(b + 46),
+        low: buffer.readFloatLE(b + 50),
+        depth: readDepth(buffer, b + 54),
+      };
+
+    case FEED_RESPONSE_CODE.DISCONNECT:
+      return {
+        ...header,
+        kind: 'disconnect',
+        disconnectCode: buffer.readInt16LE(b),
+      };
+
+    default:
+      return null;
+  }
+}
+
+/**
+ * Decode every packet contained in one binary WebSocket frame
+ *
+ * Each packet's message length is validated against both the minimum size
+ * for its response code and the bytes remaining in the frame. Decoding
+ * stops at the first packet whose length cannot be trusted, since the
+ * position of anything after it is unknown.
+ */
+export function decodeFeedFrame(buffer: Buffer): DecodedFrame {
+  const packets: FeedPacket[] = [];
+  const errors: PacketDecodeError[] = [];
+  let offset = 0;
+
+  while (offset < buffer.length) {
+    const remaining = buffer.length - offset;
+
+    if (remaining < HEADER_SIZE) {
+      errors.push({
+        offset,
+        responseCode: buffer.readUInt8(offset),
+        reason: `truncated header (${remaining} bytes)`,
+      });
+      break;
+    }
+
+    const header = readHeader(buffer, offset);
+    const expected = PACKET_SIZES[header.responseCode as FeedResponseCode];
+
+    if (header.messageLength < HEADER_SIZE || header.messageLength > remaining) {
+      errors.push({
+        offset,
+        responseCode: header.responseCode,
+        reason: `invalid message length ${header.messageLength} (${remaining} bytes remaining)`,
+      });
+      break;
+    }
+
+    if (expected === undefined) {
+      errors.push({
+        offset,
+        responseCode: header.responseCode,
+        reason: `unknown response code ${header.responseCode}`,
+      });
+      offset += header.messageLength;
+      continue;
+    }
+
+    if (header.messageLength < expected) {
+      errors.push({
+        offset,
+        responseCode: header.responseCode,
+        reason: `message length ${header.messageLength} shorter than ${expected} for ${responseCodeLabel(header.responseCode)}`,
+      });
+      offset += header.messageLength;
+      continue;
+    }
+
+    const packet = decodeBody(buffer, offset, header);
+    if (packet) packets.push(packet);
+    offset += header.messageLength;
+  }
+
+  return { packets, errors };
+}
+
+// =====================
+// Encoding
+// =====================
+const SEGMENT_CODES: Record<string, number> = Object.fromEntries(
+  Object.entries(EXCHANGE_SEGMENTS).map(([code, name]) => [name, Number(code)])
+);
+
+// Omit applied to each member of the union so `kind` still narrows;
+// responseCode may be overridden to produce malformed packets
+type DistributiveOmit<T, K extends PropertyKey> = T extends unknown ? Omit<T, K> : never;
+export type EncodablePacket = DistributiveOmit<FeedPacket, 'messageLength' | 'responseCode'> & {
+  responseCode?: number;
+};
+
+const KIND_TO_RESPONSE_CODE: Record<FeedPacket['kind'], FeedResponseCode> = {
+  ticker: FEED_RESPONSE_CODE.TICKER,
+  quote: FEED_RESPONSE_CODE.QUOTE,
+  oi: FEED_RESPONSE_CODE.OI,
+  prev_close: FEED_RESPONSE_CODE.PREV_CLOSE,
+  market_status: FEED_RESPONSE_CODE.MARKET_STATUS,
+  full: FEED_RESPONSE_CODE.FULL,
+  disconnect: FEED_RESPONSE_CODE.DISCONNECT,
+};
+
+/**
+ * Encode a packet in the Dhan binary format (inverse of decodeFeedFrame)
+ * Used by the feed simulator; the message length is filled in automatically
+ */
+export function encodeFeedPacket(packet: EncodablePacket): Buffer {
+  const responseCode = KIND_TO_RESPONSE_CODE[packet.kind];
+  const size = PACKET_SIZES[responseCode];
+  const buffer = Buffer.alloc(size);
+  const b = HEADER_SIZE;
+
+  buffer.writeUInt8(packet.responseCode ?? responseCode, 0);
+  buffer.writeUInt16LE(size, 1);
+  buffer.writeUInt8(SEGMENT_CODES[packet.exchangeSegment] ?? 0, 3);
+  buffer.writeUInt32LE(packet.securityId, 4);
+
+  switch (packet.kind) {
+    case 'ticker':
+      buffer.writeFloatLE(packet.ltp, b);
+      buffer.writeInt32LE(packet.ltt, b + 4);
+      break;
+
+    case 'quote':
+      buffer.writeFloatLE(packet.ltp, b);
+      buffer.writeInt16LE(packet.ltq, b + 4);
+      buffer.writeInt32LE(packet.ltt, b + 6);
+      buffer.writeFloatLE(packet.avgPrice, b + 10);
+      buffer.writeInt32LE(packet.volume, b + 14);
+      buffer.writeInt32LE(packet.totalSellQty, b + 18);
+      buffer.writeInt32LE(packet.totalBuyQty, b + 22);
+      buffer.writeFloatLE(packet.open, b + 26);
+      buffer.writeFloatLE(packet.close, b + 30);
+      buffer.writeFloatLE(packet.high, b + 34);
+      buffer.writeFloatLE(packet.low, b + 38);
+      break;
+
+    case 'oi':
+      buffer.writeInt32LE(packet.openInterest, b);
+      break;
+
+    case 'prev_close':
+      buffer.writeFloatLE(packet.prevClose, b);
+      buffer.writeInt32LE(packet.prevOpenInterest, b + 4);
+      break;
+
+    case 'market_status':
+      break;
+
+    case 'full':
+      buffer.writeFloatLE(packet.ltp, b);
+      buffer.writeInt16LE(packet.ltq, b + 4);
+      buffer.writeInt32LE(packet.ltt, b + 6);
+      buffer.writeFloatLE(packet.avgPrice, b + 10);
+      buffer.writeInt32LE(packet.volume, b + 14);
+      buffer.writeInt32LE(packet.totalSellQty, b + 18);
+      buffer.writeInt32LE(packet.totalBuyQty, b + 22);
+      buffer.writeInt32LE(packet.openInterest, b + 26);
+      buffer.writeInt32LE(packet.highestOpenInterest, b + 30);
+      buffer.writeInt32LE(packet.lowestOpenInterest, b + 34);
+      buffer.writeFloatLE(packet.open, b + 38);
+      buffer.writeFloatLE(packet.close, b + 42);
+      buffer.writeFloatLE(packet.high, b + 46);
+      buffer.writeFloatLE(packet.low, b + 50);
+      packet.depth.slice(0, DEPTH_LEVELS).forEach((level, i) => {
+        const base = b + 54 + i * DEPTH_LEVEL_SIZE;
+        buffer.writeInt32LE(level.bidQty, base);
+        buffer.writeInt32LE(level.askQty, base + 4);
+        buffer.writeInt16LE(level.bidOrders, base + 8);
+        buffer.writeInt16LE(level.askOrders, base + 10);
+        buffer.writeFloatLE(level.bidPrice, base + 12);
+        buffer.writeFloatLE(level.askPrice, base + 16);
+      });
+      break;
+
+    case 'disconnect':
+      buffer.writeInt16LE(packet.disconnectCode, b);
+      break;
+  }
+
+  return buffer;
+}
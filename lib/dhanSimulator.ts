@@ -0,0 +1,428 @@
+/**
+ * Local stand-in for wss://api-feed.dhan.co
+ *
+ * Speaks the same protocol as the Dhan v2 market feed:
+ * - Accepts ?version=2&token=...&clientId=...&authType=2 connections
+ * - Handles the JSON subscribe / unsubscribe / disconnect request codes
+ * - Streams Ticker, Quote or Full packets (plus Prev Close on subscribe)
+ *   as random-walk prices for every subscribed security ID
+ *
+ * Faults can be injected to exercise the client: malformed packets,
+ * abrupt closes, server Disconnect packets, auth rejection and a stalled
+ * connection that stays open but goes silent.
+ *
+ * Point the app at it with DHAN_WS_URL=ws://localhost:<port>
+ */
+import { WebSocketServer, WebSocket } from 'ws';
+import type { IncomingMessage } from 'http';
+import {
+  DISCONNECT_CODES,
+  encodeFeedPacket,
+  FEED_REQUEST_CODE,
+  type DepthLevel,
+  type EncodablePacket,
+} from './dhanPackets';
+import type { DhanFeedMode } from '../stockCodes';
+
+// =====================
+// Constants
+// =====================
+const DEFAULT_PORT = 8765;
+const DEFAULT_TICK_INTERVAL_MS = 1000;
+
+// Disconnect reason codes sent in response code 50 packets
+export { DISCONNECT_CODES };
+
+const REQUEST_CODE_MODES: Record<number, { mode: DhanFeedMode; subscribe: boolean }> = {
+  [FEED_REQUEST_CODE.SUBSCRIBE_TICKER]: { mode: 'ticker', subscribe: true },
+  [FEED_REQUEST_CODE.UNSUBSCRIBE_TICKER]: { mode: 'ticker', subscribe: false },
+  [FEED_REQUEST_CODE.SUBSCRIBE_QUOTE]: { mode: 'quote', subscribe: true },
+  [FEED_REQUEST_CODE.UNSUBSCRIBE_QUOTE]: { mode: 'quote', subscribe: false },
+  [FEED_REQUEST_CODE.SUBSCRIBE_FULL]: { mode: 'full', subscribe: true },
+  [FEED_REQUEST_CODE.UNSUBSCRIBE_FULL]: { mode: 'full', subscribe: false },
+};
+
+// =====================
+// Types
+// =====================
+export type SimulatorFault =
+  | 'malformed' // send a packet whose length / code cannot be decoded
+  | 'close' // terminate the TCP connection without a close frame
+  | 'disconnect' // send a Disconnect (50) packet, then close
+  | 'auth_expired' // send Disconnect 807, then close
+  | 'stall'; // keep the connection open but stop ticks and pongs
+
+export interface SimulatorOptions {
+  port?: number;
+  tickIntervalMs?: number;
+  // Reject every connection as if the token were invalid
+  rejectAuth?: boolean;
+  // Tokens that are accepted; any token is accepted when omitted
+  validTokens?: string[];
+  // Probability (0-1) per tick round of appending a malformed packet
+  malformedRate?: number;
+  // Abruptly close each connection after this many seconds
+  closeAfterSeconds?: number;
+  log?: boolean;
+}
+
+export interface SimulatorHandle {
+  url: string;
+  port: number;
+  injectFault: (fault: SimulatorFault) => void;
+  setRejectAuth: (reject: boolean) => void;
+  clientCount: () => number;
+  close: () => Promise<void>;
+}
+
+interface SimulatedInstrument {
+  securityId: number;
+  exchangeSegment: string;
+  mode: DhanFeedMode;
+  prevClose: number;
+  open: number;
+  high: number;
+  low: number;
+  ltp: number;
+  volume: number;
+  turnover: number;
+  openInterest: number;
+}
+
+interface SimulatorClient {
+  socket: WebSocket;
+  instruments: Map<number, SimulatedInstrument>;
+  timer: NodeJS.Timeout;
+  closeTimer: NodeJS.Timeout | null;
+  stalled: boolean;
+}
+
+// =====================
+// Price Model
+// =====================
+function seedPrice(securityId: number): number {
+  // Deterministic per security so restarts look continuous
+  return 100 + ((securityId * 7919) % 4900);
+}
+
+function roundToTick(price: number): number {
+  return Math.max(0.05, Math.round(price * 20) / 20);
+}
+
+function createInstrument(
+  securityId: number,
+  exchangeSegment: string,
+  mode: DhanFeedMode
+): SimulatedInstrument {
+  const prevClose = roundToTick(seedPrice(securityId));
+  const open = roundToTick(prevClose * (1 + (Math.random() - 0.5) * 0.01));
+  return {
+    securityId,
+    exchangeSegment,
+    mode,
+    prevClose,
+    open,
+    high: open,
+    low: open,
+    ltp: open,
+    volume: 0,
+    turnover: 0,
+    openInterest: exchangeSegment === 'NSE_FNO' ? 100000 + (securityId % 50000) : 0,
+  };
+}
+
+function step(inst: SimulatedInstrument) {
+  // Random walk with ~0.05% volatility per step
+  inst.ltp = roundToTick(inst.ltp * (1 + (Math.random() - 0.5) * 0.001));
+  inst.high = Math.max(inst.high, inst.ltp);
+  inst.low = Math.min(inst.low, inst.ltp);
+
+  const qty = 1 + Math.floor(Math.random() * 500);
+  inst.volume += qty;
+  inst.turnover += qty * inst.ltp;
+
+  if (inst.openInterest > 0) {
+    inst.openInterest = Math.max(0, inst.openInterest + Math.round((Math.random() - 0.5) * 200));
+  }
+  return qty;
+}
+
+function buildDepth(inst: SimulatedInstrument): DepthLevel[] {
+  return Array.from({ length: 5 }, (_, level) => ({
+    bidQty: 100 * (level + 1),
+    askQty: 120 * (level + 1),
+    bidOrders: level + 1,
+    askOrders: level + 2,
+    bidPrice: roundToTick(inst.ltp - 0.05 * (level + 1)),
+    askPrice: roundToTick(inst.ltp + 0.05 * (level + 1)),
+  }));
+}
+
+function tickPacket(inst: SimulatedInstrument, ltq: number): EncodablePacket {
+  const header = { exchangeSegment: inst.exchangeSegment, securityId: inst.securityId };
+  const ltt = Math.floor(Date.now() / 1000);
+  const avgPrice = inst.volume > 0 ? inst.turnover / inst.volume : inst.ltp;
+
+  const quoteFields = {
+    ltp: inst.ltp,
+    ltq,
+    ltt,
+    avgPrice,
+    volume: inst.volume,
+    totalSellQty: Math.floor(inst.volume * 0.4),
+    totalBuyQty: Math.floor(inst.volume * 0.45),
+    open: inst.open,
+    close: inst.prevClose,
+    high: inst.high,
+    low: inst.low,
+  };
+
+  switch (inst.mode) {
+    case 'ticker':
+      return { ...header, kind: 'ticker', ltp: inst.ltp, ltt };
+    case 'quote':
+      return { ...header, kind: 'quote', ...quoteFields };
+    case 'full':
+      return {
+        ...header,
+        kind: 'full',
+        ...quoteFields,
+        openInterest: inst.openInterest,
+        highestOpenInterest: inst.openInterest,
+        lowestOpenInterest: inst.openInterest,
+        depth: buildDepth(inst),
+      };
+  }
+}
+
+function malformedPacket(): Buffer {
+  const buffer = Buffer.alloc(12);
+  if (Math.random() < 0.5) {
+    // Claims to be a Quote packet but is far too short
+    buffer.writeUInt8(4, 0);
+    buffer.writeUInt16LE(12, 1);
+  } else {
+    // Length field runs past the end of the frame
+    buffer.writeUInt8(2, 0);
+    buffer.writeUInt16LE(400, 1);
+  }
+  buffer.writeUInt8(1, 3);
+  buffer.writeUInt32LE(999999, 4);
+  return buffer;
+}
+
+// Packets carry security IDs as uint32
+function isSecurityId(value: number) {
+  return Number.isInteger(value) && value >= 0 && value <= 0xffffffff;
+}
+
+// =====================
+// Server
+// =====================
+
+/**
+ * Start a simulator server
+ * Resolves once it is listening
+ */
+export function startDhanSimulator(options: SimulatorOptions = {}): Promise<SimulatorHandle> {
+  const port = options.port ?? DEFAULT_PORT;
+  const tickIntervalMs = options.tickIntervalMs ?? DEFAULT_TICK_INTERVAL_MS;
+  const log = options.log ?? true;
+  let rejectAuth = options.rejectAuth ?? false;
+
+  const clients = new Set<SimulatorClient>();
+  // Pongs are sent by hand so a stalled connection can stop answering pings
+  const wss = new WebSocketServer({ port, autoPong: false });
+
+  const logLine = (...args: unknown[]) => {
+    if (log) console.log('[DhanSimulator]', ...args);
+  };
+
+  const send = (client: SimulatorClient, packets: Buffer[]) => {
+    if (client.socket.readyState !== WebSocket.OPEN || packets.length === 0) return;
+    // Several packets per frame, as the real feed does
+    client.socket.send(Buffer.concat(packets));
+  };
+
+  const disconnect = (client: SimulatorClient, code: number) => {
+    send(client, [
+      encodeFeedPacket({ kind: 'disconnect', exchangeSegment: 'IDX_I', securityId: 0, disconnectCode: code }),
+    ]);
+    client.socket.close(1000, `Disconnect ${code}`);
+  };
+
+  const handleRequest = (client: SimulatorClient, raw: string) => {
+    let request: {
+      RequestCode?: number;
+      InstrumentList?: { ExchangeSegment: string; SecurityId: string }[];
+    };
+    try {
+      request = JSON.parse(raw);
+    } catch {
+      logLine('Ignoring non-JSON request:', raw.slice(0, 80));
+      return;
+    }
+
+    if (request.RequestCode === FEED_REQUEST_CODE.DISCONNECT) {
+      logLine('Client requested disconnect');
+      client.socket.close(1000, 'Client disconnect');
+      return;
+    }
+
+    const action = REQUEST_CODE_MODES[request.RequestCode ?? -1];
+    if (!action) {
+      logLine(`Ignoring unknown RequestCode ${request.RequestCode}`);
+      return;
+    }
+
+    // Like Dhan, drop the client on an ID the packets could not carry
+    const instruments = Array.isArray(request.InstrumentList) ? request.InstrumentList : [];
+    const invalid = instruments.filter(item => !isSecurityId(Number(item?.SecurityId)));
+    if (invalid.length > 0) {
+      logLine(`Invalid SecurityId ${JSON.stringify(invalid[0]?.SecurityId)}`);
+      disconnect(client, DISCONNECT_CODES.INVALID_SECURITY_ID);
+      return;
+    }
+
+    const prevClosePackets: Buffer[] = [];
+    for (const item of instruments) {
+      const securityId = Number(item.SecurityId);
+
+      if (!action.subscribe) {
+        client.instruments.delete(securityId);
+        continue;
+      }
+
+      const existing = client.instruments.get(securityId);
+      if (existing) {
+        existing.mode = action.mode;
+        continue;
+      }
+
+      const inst = createInstrument(securityId, item.ExchangeSegment, action.mode);
+      client.instruments.set(securityId, inst);
+      prevClosePackets.push(
+        encodeFeedPacket({
+          kind: 'prev_close',
+          exchangeSegment: inst.exchangeSegment,
+          securityId,
+          prevClose: inst.prevClose,
+          prevOpenInterest: inst.openInterest,
+        })
+      );
+    }
+
+    send(client, prevClosePackets);
+    logLine(
+      `RequestCode ${request.RequestCode} (${action.subscribe ? 'subscribe' : 'unsubscribe'} ${action.mode}): ${instruments.length} instruments, ${client.instruments.size} active`
+    );
+  };
+
+  const tick = (client: SimulatorClient) => {
+    if (client.stalled) return;
+    const packets: Buffer[] = [];
+    client.instruments.forEach((inst) => {
+      const qty = step(inst);
+      packets.push(encodeFeedPacket(tickPacket(inst, qty)));
+    });
+
+    if (options.malformedRate && Math.random() < options.malformedRate) {
+      packets.push(malformedPacket());
+    }
+    send(client, packets);
+  };
+
+  wss.on('connection', (socket: WebSocket, request: IncomingMessage) => {
+    const params = new URL(request.url ?? '/', 'ws://localhost').searchParams;
+    const token = params.get('token');
+    const clientId = params.get('clientId');
+
+    const client: SimulatorClient = {
+      socket,
+      instruments: new Map(),
+      timer: setInterval(() => tick(client), tickIntervalMs),
+      closeTimer: null,
+      stalled: false,
+    };
+    clients.add(client);
+
+    socket.on('message', (data) => handleRequest(client, data.toString()));
+    socket.on('ping', (data) => {
+      if (!client.stalled) socket.pong(data);
+    });
+    socket.on('close', () => {
+      clearInterval(client.timer);
+      if (client.closeTimer) clearTimeout(client.closeTimer);
+      clients.delete(client);
+      logLine(`Client disconnected (${clients.size} connected)`);
+    });
+
+    if (!token || !clientId) {
+      logLine('Rejecting connection without token / clientId');
+      disconnect(client, DISCONNECT_CODES.CLIENT_ID_INVALID);
+      return;
+    }
+
+    if (rejectAuth || (options.validTokens && !options.validTokens.includes(token))) {
+      logLine('Rejecting connection: authentication failed');
+      disconnect(client, DISCONNECT_CODES.AUTHENTICATION_FAILED);
+      return;
+    }
+
+    if (options.closeAfterSeconds) {
+      client.closeTimer = setTimeout(() => {
+        logLine('Fault: abrupt close (closeAfterSeconds)');
+        socket.terminate();
+      }, options.closeAfterSeconds * 1000);
+    }
+
+    logLine(`Client connected (clientId=${clientId}, ${clients.size} connected)`);
+  });
+
+  const injectFault = (fault: SimulatorFault) => {
+    logLine(`Injecting fault "${fault}" into ${clients.size} connections`);
+    clients.forEach((client) => {
+      switch (fault) {
+        case 'malformed':
+          send(client, [malformedPacket()]);
+          break;
+        case 'close':
+          client.socket.terminate();
+          break;
+        case 'disconnect':
+          disconnect(client, DISCONNECT_CODES.TOO_MANY_CONNECTIONS);
+          break;
+        case 'auth_expired':
+          disconnect(client, DISCONNECT_CODES.ACCESS_TOKEN_EXPIRED);
+          break;
+        case 'stall':
+          client.stalled = true;
+          break;
+      }
+    });
+  };
+
+  return new Promise((resolve, reject) => {
+    wss.once('error', reject);
+    wss.once('listening', () => {
+      const address = wss.address();
+      const boundPort = typeof address === 'object' && address ? address.port : port;
+      logLine(`Listening on ws://localhost:${boundPort}`);
+
+      resolve({
+        url: `ws://localhost:${boundPort}`,
+        port: boundPort,
+        injectFault,
+        setRejectAuth: (reject) => {
+          rejectAuth = reject;
+        },
+        clientCount: () => clients.size,
+        close: () =>
+          new Promise<void>((done) => {
+            clients.forEach(client => client.socket.terminate());
+            wss.close(() => done());
+          }),
+      });
+    });
+  });
+}
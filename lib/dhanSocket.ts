@@ -5,22 +5,114 @@
  * - Only ONE WebSocket regardless of number of users
  * - Runs server-side only
  * - Auto reconnect with backoff
+ * - Connected only around trading sessions (see sessionScheduler.ts)
  */
 
 import WebSocket from 'ws';
 import {
   STOCK_INSTRUMENTS,
+  type DhanFeedMode,
   type DhanInstrument,
 } from '../stockCodes';
-import { saveStockPrice } from './firebaseServer';
+import { configureTickSinks, dispatchTick } from './tickSinks';
+import {
+  addStreamClient,
+  getStreamClientCount,
+  getStreamClientStats,
+  publishStreamEvent,
+  type TickStreamOptions,
+} from './tickStream';
+import { loadWatchlist, saveWatchlist } from './watchlistStore';
+import { startWsFanout, stopWsFanout } from './wsFanout';
+import { evaluateAlerts, loadAlerts, onAlert } from './alerts';
+import {
+  getDayChange,
+  notePrevClose,
+  recordDayTick,
+  type DayOpenSource,
+  type PrevCloseSource,
+} from './dayStats';
+import { startWebhooks, stopWebhooks } from './webhooks';
+import {
+  loadDhanCredentials,
+  setDhanCredentials,
+  watchDhanCredentials,
+  type DhanCredentials,
+} from './dhanCredentials';
+import {
+  onCandleClose,
+  recordTick,
+  resetCandleClock,
+  setCandleClock,
+} from './candles';
+import {
+  parseReplaySpeed,
+  recordFrame,
+  replayRecording,
+  startRecording,
+  type ReplayHandle,
+  type ReplaySpeed,
+} from './tickRecorder';
+import {
+  AUTH_DISCONNECT_CODES,
+  decodeFeedFrame,
+  FEED_REQUEST_CODE,
+  disconnectReason,
+  responseCodeLabel,
+  SUBSCRIBE_REQUEST_CODES,
+  UNSUBSCRIBE_REQUEST_CODES,
+  type DepthLevel,
+  type FeedPacket,
+  type OIPacket,
+  type PrevClosePacket,
+} from './dhanPackets';
+import {
+  createCounter,
+  createGauge,
+  createRateMeter,
+  registerMetricsCollector,
+} from './metrics';
+import {
+  getLastPacketTimes,
+  type FeedIncident,
+  noteConnected,
+  noteDisconnected,
+  noteFeedActivity,
+  noteInstrumentPacket,
+  notePong,
+  startFeedWatchdog,
+  stopFeedWatchdog,
+} from './feedWatchdog';
+import { getCurrentSession, getNextSessionStart, isSegmentOpen } from './marketCalendar';
+import {
+  isSessionSchedulerActive,
+  isTradingWindowOpen,
+  startSessionScheduler,
+  stopSessionScheduler,
+} from './sessionScheduler';
 
 // =====================
 // Constants & Env
 // =====================
-const DHAN_WS_URL = 'wss://api-feed.dhan.co';
+// Override with DHAN_WS_URL to point at the local simulator (lib/dhanSimulator.ts)
+const DHAN_WS_URL = process.env.DHAN_WS_URL ?? 'wss://api-feed.dhan.co';
+
+// Dhan allows at most 100 instruments per subscribe message
+const SUBSCRIPTION_BATCH_SIZE = 100;
+const DEFAULT_FEED_MODE: DhanFeedMode = 'ticker';
+
+// A requested subscription with no packet this long into an open session is failed
+const SUBSCRIPTION_CONFIRM_TIMEOUT_MS =
+  Number(process.env.SUBSCRIPTION_CONFIRM_TIMEOUT_MS) || 2 * 60 * 1000;
+const SUBSCRIPTION_CHECK_INTERVAL_MS = 15 * 1000;
+
+// Longest single wait for the session-open timer; it re-arms after firing
+const MAX_SESSION_TIMER_MS = 6 * 60 * 60 * 1000;
+const VALID_EXCHANGES: DhanInstrument['exchange'][] = ['NSE_EQ', 'NSE_FNO', 'IDX_I'];
 
-const clientId = process.env.DHAN_CLIENT_ID;
-const accessToken = process.env.DHAN_ACCESS_TOKEN;
+// Rejected credentials: HTTP status of a refused handshake, or a policy-violation close
+const AUTH_HANDSHAKE_STATUSES = new Set([401, 403]);
+const AUTH_CLOSE_CODES = new Set([1008]);
 
 declare global {
   // eslint-disable-next-line no-var
@@ -34,6 +126,91 @@ let ws: WebSocket | null = null;
 let reconnectTimer: NodeJS.Timeout | null = null;
 let isConnecting = false;
 let reconnectDelay = 5000;
+let nextReconnectDelay: number | null = null;
+let sessionOpenTimer: NodeJS.Timeout | null = null;
+let subscriptionCheckTimer: NodeJS.Timeout | null = null;
+
+// Why the last connection ended; server / watchdog causes are attached to
+// the close that follows them
+export interface DisconnectInfo {
+  at: number;
+  closeCode: number;
+  closeReason: string;
+  serverCode: number | null;
+  serverReason: string | null;
+  watchdogReason: FeedIncident['reason'] | null;
+  // HTTP status when the handshake itself was refused
+  handshakeStatus: number | null;
+}
+
+type DisconnectCause = Pick<DisconnectInfo, 'serverCode' | 'serverReason' | 'watchdogReason' | 'handshakeStatus'>;
+
+const NO_DISCONNECT_CAUSE: DisconnectCause = {
+  serverCode: null,
+  serverReason: null,
+  watchdogReason: null,
+  handshakeStatus: null,
+};
+
+let lastDisconnect: DisconnectInfo | null = null;
+let pendingDisconnectCause: DisconnectCause = { ...NO_DISCONNECT_CAUSE };
+
+// Set when Dhan rejects the token; no reconnects until it is replaced
+export interface AuthFailure {
+  at: number;
+  reason: string;
+}
+
+let authFailure: AuthFailure | null = null;
+let stopTokenWatch: (() => void) | null = null;
+
+// Bumped per connect, so a slow credential lookup can't outlive its attempt
+let connectAttempt = 0;
+
+// Replay mode (feeds a recording through handleMessage instead of the socket)
+let replayHandle: ReplayHandle | null = null;
+let replayClockMs = 0;
+
+// =====================
+// Metrics
+// =====================
+const ticksTotal = createCounter(
+  'dhan_ticks_total',
+  'Feed packets handled, by response code and exchange segment'
+);
+const ticksPerSecond = createRateMeter(
+  'dhan_ticks_per_second',
+  'Feed packets per second over the last 10s, by response code and exchange segment'
+);
+const parseFailuresTotal = createCounter(
+  'dhan_parse_failures_total',
+  'Feed packets that could not be decoded'
+);
+const reconnectsTotal = createCounter(
+  'dhan_reconnects_total',
+  'Reconnects scheduled after the socket closed'
+);
+const authFailuresTotal = createCounter(
+  'dhan_auth_failures_total',
+  'Connections ended because Dhan rejected the access token or client ID'
+);
+const reconnectBackoffSeconds = createGauge(
+  'dhan_reconnect_backoff_seconds',
+  'Delay before the pending reconnect (0 when none is scheduled)'
+);
+const socketStateGauge = createGauge(
+  'dhan_socket_state',
+  'Feed socket state, 1 for the current state'
+);
+const sseClientsGauge = createGauge('dhan_sse_clients', 'Connected SSE clients');
+const sseSlowClientsGauge = createGauge(
+  'dhan_sse_slow_clients',
+  'SSE clients whose queue is over the slow-client limit (ticks conflated)'
+);
+const lastTickAgeSeconds = createGauge(
+  'dhan_last_tick_age_seconds',
+  'Seconds since the last packet for each watchlist instrument'
+);
 
 // =====================
 // Tick Data Store (for frontend)
@@ -41,22 +218,46 @@ let reconnectDelay = 5000;
 export interface TickData {
   securityId: number;
   symbol: string;
+  exchangeSegment: string;
   price: number;
   timestamp: number;
   messageType: number;
   messageTypeLabel: string;
+  // Quote / Full mode fields (present only when the packet carries them)
+  lastTradedQty?: number;
+  avgPrice?: number;
+  volume?: number;
+  totalBuyQty?: number;
+  totalSellQty?: number;
+  open?: number;
+  close?: number;
+  high?: number;
+  low?: number;
+  // Full mode / OI packet fields
+  openInterest?: number;
+  highestOpenInterest?: number;
+  lowestOpenInterest?: number;
+  depth?: DepthLevel[];
+  // Prev Close packet fields
+  prevClose?: number;
+  prevOpenInterest?: number;
+  // Day change (see dayStats.ts); prevClose falls back to the day's first
+  // tick, with prevCloseSource 'first_tick'
+  prevCloseSource?: PrevCloseSource;
+  change?: number;
+  changePercent?: number;
+  dayOpen?: number;
+  dayOpenSource?: DayOpenSource;
+  dayHigh?: number;
+  dayLow?: number;
 }
 
 // Store latest tick data per security ID
 const tickDataStore = new Map<number, TickData>();
 
-// SSE clients (for pushing data to frontend)
-interface SSEClient {
-  controller: ReadableStreamDefaultController;
-  id: string;
-}
-
-const sseClients = new Map<string, SSEClient>();
+// OI / prev close values arrive in their own packets; keep them per security
+// so they can be merged into the next trade tick
+const tickExtrasStore = new Map<number, Partial<TickData>>();
 
 export function getTickData(securityId?: number): TickData | Map<number, TickData> {
   if (securityId) {
@@ -65,72 +266,127 @@ export function getTickData(securityId?: number): TickData | Map<number, TickDat
   return tickDataStore;
 }
 
-export function subscribeToTicks(controller: ReadableStreamDefaultController): () => void {
-  const id = Math.random().toString(36).substring(7);
-  sseClients.set(id, { controller, id });
+/**
+ * OI / prev OI received for a security, including before its first trade tick
+ */
+export function getTickExtras(securityId: number): Partial<TickData> | undefined {
+  return tickExtrasStore.get(securityId);
+}
 
-  // Send initial data
-  const initialData = Array.from(tickDataStore.values());
-  if (initialData.length > 0) {
-    try {
-      controller.enqueue(
-        new TextEncoder().encode(`data: ${JSON.stringify({ type: 'initial', data: initialData })}\n\n`)
-      );
-    } catch (error) {
-      console.error('[DhanSocket] Error sending initial data to SSE client:', error);
-    }
-  }
+/**
+ * Stream ticks and candles to an SSE client (see tickStream.ts for
+ * filtering, throttling and Last-Event-ID resume)
+ * @returns Unsubscribe function
+ */
+export function subscribeToTicks(
+  controller: ReadableStreamDefaultController,
+  options: TickStreamOptions = {}
+): () => void {
+  return addStreamClient(controller, () => Array.from(tickDataStore.values()), options);
+}
 
-  // Return unsubscribe function
-  return () => {
-    sseClients.delete(id);
-  };
+/**
+ * Tell stream clients about connection changes (no instrument: goes to everyone)
+ */
+function publishSocketStatus() {
+  publishStreamEvent('status', { websocket: getSocketStatus(), at: Date.now() });
 }
 
 function broadcastTickData(tickData: TickData) {
-  const message = `data: ${JSON.stringify({ type: 'tick', data: tickData })}\n\n`;
-  const encoded = new TextEncoder().encode(message);
-  
-  // Remove closed connections
-  const toRemove: string[] = [];
-  sseClients.forEach((client, id) => {
-    try {
-      client.controller.enqueue(encoded);
-    } catch (error) {
-      // Client disconnected
-      toRemove.push(id);
-    }
+  publishStreamEvent('tick', tickData, {
+    securityId: tickData.securityId,
+    symbol: tickData.symbol,
+    segment: tickData.exchangeSegment,
   });
-  
-  toRemove.forEach((id) => sseClients.delete(id));
 }
 
+// Tick sinks (Firestore, JSONL, ...) are configured once per process
+configureTickSinks();
+
+// Push closed candles to SSE clients
+onCandleClose((candle) =>
+  publishStreamEvent('candle', candle, {
+    securityId: candle.securityId,
+    symbol: candle.symbol,
+    segment: SECURITY_ID_TO_EXCHANGE.get(String(candle.securityId)),
+  })
+);
+
+// Push triggered price alerts to SSE clients
+onAlert((alert) =>
+  publishStreamEvent('alert', alert, {
+    securityId: alert.securityId,
+    symbol: alert.symbol,
+    segment: SECURITY_ID_TO_EXCHANGE.get(String(alert.securityId)),
+  })
+);
+
 // =====================
 // Instrument Lookups (O(1))
 // =====================
 const SECURITY_ID_TO_SYMBOL = new Map<string, string>();
 const SECURITY_ID_TO_EXCHANGE = new Map<string, string>();
 
-for (const inst of STOCK_INSTRUMENTS) {
+// Instruments on the watchlist: STOCK_INSTRUMENTS plus runtime additions
+const activeInstruments = new Map<string, DhanInstrument>();
+
+// Subscription lifecycle per security on the current connection:
+// pending -> requested (sent) -> confirmed (first packet) or failed (no
+// packet within SUBSCRIPTION_CONFIRM_TIMEOUT_MS of the session being open).
+// A failed subscription is still confirmed by a later packet.
+export type SubscriptionState = 'pending' | 'requested' | 'confirmed' | 'failed';
+
+interface SubscriptionRecord {
+  mode: DhanFeedMode;
+  state: SubscriptionState;
+  requestedAt: number | null;
+  confirmedAt: number | null;
+  attempts: number;
+}
+
+const subscriptionStates = new Map<string, SubscriptionRecord>();
+
+// Runtime instruments that are not persisted (e.g. option chain legs)
+const ephemeralIds = new Set<string>();
+
+const STATIC_INSTRUMENTS = new Map(
+  STOCK_INSTRUMENTS.map(inst => [inst.securityId, inst])
+);
+
+function registerInstrument(inst: DhanInstrument) {
+  activeInstruments.set(inst.securityId, inst);
   SECURITY_ID_TO_SYMBOL.set(inst.securityId, inst.symbol);
   SECURITY_ID_TO_EXCHANGE.set(inst.securityId, inst.exchange);
 }
 
+function unregisterInstrument(securityId: string) {
+  activeInstruments.delete(securityId);
+  SECURITY_ID_TO_SYMBOL.delete(securityId);
+  SECURITY_ID_TO_EXCHANGE.delete(securityId);
+}
+
+for (const inst of STOCK_INSTRUMENTS) {
+  registerInstrument(inst);
+}
+
 // =====================
 // Validation
 // =====================
-function validateEnv() {
-  if (!clientId || !accessToken) {
-    throw new Error(
-      'DHAN_CLIENT_ID and DHAN_ACCESS_TOKEN must be set'
-    );
-  }
+function findInvalidInstruments(instruments: DhanInstrument[]) {
+  return instruments.filter(
+    inst =>
+      !inst ||
+      typeof inst !== 'object' ||
+      !inst.symbol ||
+      !inst.securityId ||
+      !VALID_EXCHANGES.includes(inst.exchange) ||
+      // Own keys only: `in` would also accept "toString", "constructor", ...
+      (inst.mode !== undefined && !Object.prototype.hasOwnProperty.call(SUBSCRIBE_REQUEST_CODES, inst.mode))
+  );
 }
 
-function validateInstruments() {
-  const invalid = STOCK_INSTRUMENTS.filter(
-    inst => !inst.securityId || !inst.exchange
-  );
+function validateInstruments(instruments: DhanInstrument[]) {
+  const invalid = findInvalidInstruments(instruments);
 
   if (invalid.length > 0) {
     console.error('[DhanSocket] Invalid instruments:', invalid);
@@ -138,50 +394,91 @@ function validateInstruments() {
   }
 }
 
-function isMarketOpen() {
-  const now = new Date();
-  const hours = now.getUTCHours() + 5; // IST offset
-  const minutes = now.getUTCMinutes();
-  const istMinutes =
-  now.getUTCHours() * 60 +
-  now.getUTCMinutes() +
-  330;
-
-  const marketOpen = 9 * 60 + 15;  // 09:15 IST
-  const marketClose = 15 * 60 + 30; // 15:30 IST
-
-  return istMinutes >= marketOpen && istMinutes <= marketClose;
+export function getActiveSegments(): string[] {
+  return Array.from(new Set(Array.from(activeInstruments.values(), inst => inst.exchange)));
 }
 
+/**
+ * True while any watched segment is in a trading session
+ * @param includePreOpen - Count the pre-open auction as open (default true)
+ */
+export function isMarketOpen(at: Date = new Date(), includePreOpen = true) {
+  return getActiveSegments().some(segment => isSegmentOpen(segment, at, includePreOpen));
+}
 
 // =====================
 // Subscription
 // =====================
+/**
+ * Subscribe every watchlist instrument that is not live on this socket
+ * (pending after a (re)connect, failed, or with a changed feed mode)
+ */
 function subscribeToStockCodes() {
-
-  if (!isMarketOpen()) {
-    console.log('[DhanSocket] Market closed - subscription skipped');
-    return;
-  }
   if (!ws || ws.readyState !== WebSocket.OPEN) {
     console.error('[DhanSocket] WebSocket not open for subscription');
     return;
   }
 
-  validateInstruments();
+  const instruments = Array.from(activeInstruments.values()).filter((inst) => {
+    const record = subscriptionStates.get(inst.securityId);
+    return (
+      !record ||
+      record.state === 'pending' ||
+      record.state === 'failed' ||
+      record.mode !== (inst.mode ?? DEFAULT_FEED_MODE)
+    );
+  });
+  if (instruments.length === 0) return;
+  validateInstruments(instruments);
 
-  // Batch subscriptions - Dhan API may have limits on subscription size
-  // RequestCode 15 is the correct code for market feed subscription
-  const BATCH_SIZE = 100; // Subscribe in batches to avoid API limits
-  
-  const totalInstruments = STOCK_INSTRUMENTS.length;
-  let subscribedCount = 0;
+  // Group instruments by feed mode - each mode has its own subscribe code
+  const byMode = groupInstrumentsByMode(instruments);
+
+  for (const [mode, group] of byMode) {
+    sendSubscription(SUBSCRIBE_REQUEST_CODES[mode], mode, group);
+  }
+
+  console.log(
+    `[DhanSocket] Subscribed to ${instruments.length} instruments (${Array.from(byMode)
+      .map(([mode, group]) => `${mode}: ${group.length}`)
+      .join(', ')})`
+  );
+}
+
+function groupInstrumentsByMode(
+  instruments: DhanInstrument[]
+): Map<DhanFeedMode, DhanInstrument[]> {
+  const groups = new Map<DhanFeedMode, DhanInstrument[]>();
+  for (const inst of instruments) {
+    const mode = inst.mode ?? DEFAULT_FEED_MODE;
+    const group = groups.get(mode);
+    if (group) {
+      group.push(inst);
+    } else {
+      groups.set(mode, [inst]);
+    }
+  }
+  return groups;
+}
+
+/**
+ * Send a subscribe / unsubscribe request for a set of instruments
+ * Dhan accepts at most 100 instruments per message, so requests are batched
+ */
+function sendSubscription(
+  requestCode: number,
+  mode: DhanFeedMode,
+  instruments: DhanInstrument[]
+) {
+  if (!ws || ws.readyState !== WebSocket.OPEN) return;
+
+  const totalInstruments = instruments.length;
+
+  for (let i = 0; i < totalInstruments; i += SUBSCRIPTION_BATCH_SIZE) {
+    const batch = instruments.slice(i, i + SUBSCRIPTION_BATCH_SIZE);
 
-  for (let i = 0; i < totalInstruments; i += BATCH_SIZE) {
-    const batch = STOCK_INSTRUMENTS.slice(i, i + BATCH_SIZE);
-    
     const payload = {
-      RequestCode: 15, // Market Feed Subscribe (correct code)
+      RequestCode: requestCode,
       InstrumentCount: batch.length,
       InstrumentList: batch.map(inst => ({
         ExchangeSegment: inst.exchange,
@@ -189,27 +486,331 @@ function subscribeToStockCodes() {
       })),
     };
 
-    const subscriptionMsg = JSON.stringify(payload);
     console.log(
-      `[DhanSocket] Sending subscription batch ${Math.floor(i / BATCH_SIZE) + 1}: ${batch.length} instruments (${subscribedCount + batch.length}/${totalInstruments})`
+      `[DhanSocket] Sending RequestCode ${requestCode} (${mode}) batch ${Math.floor(i / SUBSCRIPTION_BATCH_SIZE) + 1}: ${batch.length} instruments (${i + batch.length}/${totalInstruments})`
+    );
+    ws.send(JSON.stringify(payload));
+  }
+
+  const isSubscribe = requestCode === SUBSCRIBE_REQUEST_CODES[mode];
+  const now = Date.now();
+  for (const inst of instruments) {
+    if (isSubscribe) {
+      subscriptionStates.set(inst.securityId, {
+        mode,
+        state: 'requested',
+        requestedAt: now,
+        confirmedAt: null,
+        attempts: (subscriptionStates.get(inst.securityId)?.attempts ?? 0) + 1,
+      });
+    } else {
+      subscriptionStates.delete(inst.securityId);
+    }
+  }
+}
+
+/**
+ * Everything sent on a socket that has gone away has to be requested again
+ */
+function resetSubscriptionStates() {
+  subscriptionStates.forEach((record) => {
+    record.state = 'pending';
+    record.requestedAt = null;
+    record.confirmedAt = null;
+  });
+}
+
+/**
+ * First packet for a requested instrument confirms its subscription
+ */
+function confirmSubscription(securityId: number) {
+  const record = subscriptionStates.get(String(securityId));
+  if (!record || record.state === 'confirmed' || record.state === 'pending') return;
+
+  if (record.state === 'failed') {
+    console.log(`[DhanSocket] ✅ ${resolveSymbol(String(securityId))} subscription recovered`);
+  }
+  record.state = 'confirmed';
+  record.confirmedAt = Date.now();
+}
+
+/**
+ * Fail requested subscriptions that stayed silent for the confirm timeout
+ * while their segment was open. Time before the session started (e.g. a
+ * pre-market connect) doesn't count.
+ */
+function checkSubscriptionTimeouts(now: number = Date.now()) {
+  const failed: string[] = [];
+
+  subscriptionStates.forEach((record, securityId) => {
+    if (record.state !== 'requested' || record.requestedAt === null) return;
+
+    const exchange = SECURITY_ID_TO_EXCHANGE.get(securityId);
+    const session = exchange ? getCurrentSession(exchange, new Date(now)) : null;
+    if (!session) return;
+
+    const waitingSince = Math.max(record.requestedAt, session.start.getTime());
+    if (now - waitingSince < SUBSCRIPTION_CONFIRM_TIMEOUT_MS) return;
+
+    record.state = 'failed';
+    failed.push(resolveSymbol(securityId));
+  });
+
+  if (failed.length > 0) {
+    console.error(
+      `[DhanSocket] ❌ No data for ${failed.length} subscription(s) after ${SUBSCRIPTION_CONFIRM_TIMEOUT_MS / 1000}s: ${failed.join(', ')}`
     );
-    ws.send(subscriptionMsg);
-    subscribedCount += batch.length;
+  }
+}
+
+/**
+ * Fire at the next session open of any watched segment: anything still
+ * pending or failed is (re)subscribed on the open socket
+ */
+function scheduleSessionOpenTimer() {
+  if (sessionOpenTimer) clearTimeout(sessionOpenTimer);
+  sessionOpenTimer = null;
+
+  const starts = getActiveSegments()
+    .map(segment => getNextSessionStart(segment)?.start.getTime())
+    .filter((time): time is number => time !== undefined);
+  if (starts.length === 0) return;
+
+  const opensAt = Math.min(...starts);
+  const delay = Math.min(Math.max(opensAt - Date.now(), 0), MAX_SESSION_TIMER_MS);
+
+  sessionOpenTimer = setTimeout(() => {
+    sessionOpenTimer = null;
+    if (Date.now() >= opensAt) {
+      console.log('[DhanSocket] Session open - subscribing pending instruments');
+      if (ws && ws.readyState === WebSocket.OPEN) subscribeToStockCodes();
+    }
+    scheduleSessionOpenTimer();
+  }, delay);
+  sessionOpenTimer.unref?.();
+}
+
+function startSubscriptionMonitor() {
+  if (!subscriptionCheckTimer) {
+    subscriptionCheckTimer = setInterval(() => checkSubscriptionTimeouts(), SUBSCRIPTION_CHECK_INTERVAL_MS);
+    subscriptionCheckTimer.unref?.();
+  }
+  scheduleSessionOpenTimer();
+}
+
+function stopSubscriptionMonitor() {
+  if (subscriptionCheckTimer) clearInterval(subscriptionCheckTimer);
+  if (sessionOpenTimer) clearTimeout(sessionOpenTimer);
+  subscriptionCheckTimer = null;
+  sessionOpenTimer = null;
+}
+
+// =====================
+// Runtime Watchlist
+// =====================
+export interface InstrumentSubscription extends DhanInstrument {
+  mode: DhanFeedMode;
+  source: 'static' | 'runtime' | 'ephemeral';
+  subscribed: boolean;
+  state: SubscriptionState;
+  requestedAt: number | null;
+  confirmedAt: number | null;
+  attempts: number;
+  lastTickAt: number | null;
+}
+
+/**
+ * Persisted watchlist changes are applied before the first subscription
+ * so removed instruments are never subscribed after a restart
+ */
+const watchlistLoaded: Promise<void> = loadWatchlist().then((state) => {
+  if (!state) return;
+
+  for (const securityId of state.removed) {
+    unregisterInstrument(securityId);
+  }
+  // One bad stored entry must not block the rest of the watchlist
+  const invalid = findInvalidInstruments(state.added);
+  if (invalid.length > 0) {
+    console.warn('[DhanSocket] Ignoring invalid instruments in the stored watchlist:', invalid);
+  }
+  const added = state.added.filter(inst => !invalid.includes(inst));
+  for (const inst of added) {
+    registerInstrument(inst);
   }
 
   console.log(
-    `[DhanSocket] Subscribed to ${totalInstruments} instruments in ${Math.ceil(totalInstruments / BATCH_SIZE)} batches`
+    `[DhanSocket] Restored watchlist (${added.length} added, ${state.removed.length} removed)`
   );
 
-  const modePayload = {
-    RequestCode: 16, // Set mode
-    Mode: 1,         // LTP
-  };
+  // Socket may already be subscribed if it opened first
+  if (ws && ws.readyState === WebSocket.OPEN && subscriptionStates.size > 0) {
+    syncSubscriptions();
+  }
+  scheduleSessionOpenTimer();
+}).catch((error) => {
+  console.error('[DhanSocket] ❌ Error applying the stored watchlist:', error);
+});
+
+/**
+ * Bring the Dhan subscriptions on the open socket in line with activeInstruments
+ */
+function syncSubscriptions() {
+  if (!ws || ws.readyState !== WebSocket.OPEN) return;
+
+  const toUnsubscribe = new Map<DhanFeedMode, DhanInstrument[]>();
+  subscriptionStates.forEach(({ mode, state }, securityId) => {
+    if (state === 'pending') return;
+    const inst = activeInstruments.get(securityId);
+    if (inst && (inst.mode ?? DEFAULT_FEED_MODE) === mode) return;
+
+    const stale: DhanInstrument = inst ?? {
+      symbol: resolveSymbol(securityId),
+      exchange: (SECURITY_ID_TO_EXCHANGE.get(securityId) ?? 'NSE_EQ') as DhanInstrument['exchange'],
+      securityId,
+    };
+    toUnsubscribe.set(mode, [...(toUnsubscribe.get(mode) ?? []), stale]);
+  });
+
+  for (const [mode, group] of toUnsubscribe) {
+    sendSubscription(UNSUBSCRIBE_REQUEST_CODES[mode], mode, group);
+  }
+
+  const toSubscribe = Array.from(activeInstruments.values()).filter((inst) => {
+    const record = subscriptionStates.get(inst.securityId);
+    return (
+      !record ||
+      record.state === 'pending' ||
+      record.mode !== (inst.mode ?? DEFAULT_FEED_MODE)
+    );
+  });
+
+  for (const [mode, group] of groupInstrumentsByMode(toSubscribe)) {
+    sendSubscription(SUBSCRIBE_REQUEST_CODES[mode], mode, group);
+  }
+}
+
+function persistWatchlist() {
+  const added = Array.from(activeInstruments.values()).filter((inst) => {
+    if (ephemeralIds.has(inst.securityId)) return false;
+    const original = STATIC_INSTRUMENTS.get(inst.securityId);
+    return (
+      !original ||
+      original.symbol !== inst.symbol ||
+      original.exchange !== inst.exchange ||
+      original.mode !== inst.mode
+    );
+  });
+  const removed = STOCK_INSTRUMENTS
+    .map(inst => inst.securityId)
+    .filter(securityId => !activeInstruments.has(securityId));
+
+  saveWatchlist({ added, removed }).catch(() => {
+    // Error already logged in saveWatchlist
+  });
+}
+
+export interface WatchlistChangeOptions {
+  // false for subscriptions owned by another service (e.g. option chains)
+  // that should not survive a restart
+  persist?: boolean;
+}
+
+/**
+ * Add instruments to the watchlist and subscribe them on the open socket
+ * An instrument already on the watchlist is updated (e.g. a new feed mode)
+ * @throws Error if any instrument is invalid
+ */
+export function addInstruments(
+  instruments: DhanInstrument[],
+  { persist = true }: WatchlistChangeOptions = {}
+): InstrumentSubscription[] {
+  const invalid = findInvalidInstruments(instruments);
+  if (invalid.length > 0) {
+    throw new Error(
+      `Invalid instruments: ${invalid.map(inst => inst.securityId || inst.symbol || '?').join(', ')}`
+    );
+  }
+
+  for (const inst of instruments) {
+    const securityId = String(inst.securityId);
+    const wasPersisted =
+      STATIC_INSTRUMENTS.has(securityId) ||
+      (activeInstruments.has(securityId) && !ephemeralIds.has(securityId));
+
+    registerInstrument({
+      symbol: inst.symbol,
+      exchange: inst.exchange,
+      securityId,
+      ...(inst.mode ? { mode: inst.mode } : {}),
+    });
+
+    if (persist || wasPersisted) {
+      ephemeralIds.delete(securityId);
+    } else {
+      ephemeralIds.add(securityId);
+    }
+  }
 
-  const modeMsg = JSON.stringify(modePayload);
-  console.log('[DhanSocket] Sending mode payload:', modeMsg);
-  ws.send(modeMsg);
-  console.log('[DhanSocket] LTP mode enabled');
+  syncSubscriptions();
+  scheduleSessionOpenTimer();
+  if (persist) persistWatchlist();
+
+  const ids = new Set(instruments.map(inst => String(inst.securityId)));
+  return getSubscriptions().filter(sub => ids.has(sub.securityId));
+}
+
+/**
+ * Remove instruments from the watchlist and unsubscribe them on the open socket
+ * @returns Security IDs that were actually removed
+ */
+export function removeInstruments(
+  securityIds: string[],
+  { persist = true }: WatchlistChangeOptions = {}
+): string[] {
+  const removed = securityIds.map(String).filter(id => activeInstruments.has(id));
+
+  for (const securityId of removed) {
+    activeInstruments.delete(securityId);
+  }
+
+  // Unsubscribe while the symbol / exchange lookups still resolve
+  syncSubscriptions();
+
+  for (const securityId of removed) {
+    unregisterInstrument(securityId);
+    ephemeralIds.delete(securityId);
+    subscriptionStates.delete(securityId);
+    tickDataStore.delete(Number(securityId));
+    tickExtrasStore.delete(Number(securityId));
+  }
+
+  if (removed.length > 0) scheduleSessionOpenTimer();
+  if (persist && removed.length > 0) persistWatchlist();
+  return removed;
+}
+
+export function getSubscriptions(): InstrumentSubscription[] {
+  return Array.from(activeInstruments.values()).map((inst) => {
+    const mode = inst.mode ?? DEFAULT_FEED_MODE;
+    const record = subscriptionStates.get(inst.securityId);
+    const live = record?.mode === mode ? record : undefined;
+    return {
+      ...inst,
+      mode,
+      source: STATIC_INSTRUMENTS.has(inst.securityId)
+        ? 'static'
+        : ephemeralIds.has(inst.securityId)
+          ? 'ephemeral'
+          : 'runtime',
+      subscribed: live !== undefined && live.state !== 'pending',
+      state: live?.state ?? 'pending',
+      requestedAt: live?.requestedAt ?? null,
+      confirmedAt: live?.confirmedAt ?? null,
+      attempts: record?.attempts ?? 0,
+      lastTickAt: tickDataStore.get(Number(inst.securityId))?.timestamp ?? null,
+    };
+  });
 }
 
 // =====================
@@ -223,42 +824,160 @@ function resolveSymbol(securityId?: string): string {
   );
 }
 
-function parseBinaryTick(buffer: Buffer): {
-  messageType: number;
-  securityId: number;
-  price: number;
-  timestamp: number;
-} | null {
-  if (buffer.length < 16) {
-    return null; // Invalid message length
+/**
+ * Build the TickData fields carried by a trade-bearing packet
+ * (Ticker, Quote or Full). Other response codes return null.
+ */
+function tradeFieldsFromPacket(packet: FeedPacket): Partial<TickData> | null {
+  switch (packet.kind) {
+    case 'ticker':
+      return { price: packet.ltp, timestamp: packet.ltt };
+    case 'quote':
+      return {
+        price: packet.ltp,
+        timestamp: packet.ltt,
+        lastTradedQty: packet.ltq,
+        avgPrice: packet.avgPrice,
+        volume: packet.volume,
+        totalBuyQty: packet.totalBuyQty,
+        totalSellQty: packet.totalSellQty,
+        open: packet.open,
+        close: packet.close,
+        high: packet.high,
+        low: packet.low,
+      };
+    case 'full':
+      return {
+        price: packet.ltp,
+        timestamp: packet.ltt,
+        lastTradedQty: packet.ltq,
+        avgPrice: packet.avgPrice,
+        volume: packet.volume,
+        totalBuyQty: packet.totalBuyQty,
+        totalSellQty: packet.totalSellQty,
+        open: packet.open,
+        close: packet.close,
+        high: packet.high,
+        low: packet.low,
+        openInterest: packet.openInterest,
+        highestOpenInterest: packet.highestOpenInterest,
+        lowestOpenInterest: packet.lowestOpenInterest,
+        depth: packet.depth,
+      };
+    default:
+      return null;
   }
+}
 
-  try {
-    // Dhan binary tick format (LTP mode - 16 bytes):
-    // Byte 0: Feed Response Code (0x02 = LTP, 0x06 = Quote/OI)
-    // Bytes 1-2: Message Length (little-endian)
-    // Byte 3: Exchange Segment
-    // Bytes 4-7: Security ID (4 bytes, little-endian, unsigned int)
-    // Bytes 8-11: Last Traded Price (4 bytes, float, little-endian)
-    // Bytes 12-15: Last Traded Time (4 bytes, unsigned int, little-endian)
-
-    const messageType = buffer.readUInt8(0);
-    // const messageLength = buffer.readUInt16LE(1);
-    // const exchangeSegment = buffer.readUInt8(3);
-    const securityId = buffer.readUInt32LE(4);
-    const price = buffer.readFloatLE(8);
-    const timestamp = buffer.readUInt32LE(12);
+/**
+ * Merge OI / Prev Close packets into the per-security extras and,
+ * if we already have a tick for the security, re-publish it
+ */
+function handleSupplementalPacket(packet: OIPacket | PrevClosePacket) {
+  const extras = tickExtrasStore.get(packet.securityId) ?? {};
+
+  if (packet.kind === 'oi') {
+    extras.openInterest = packet.openInterest;
+  } else {
+    extras.prevOpenInterest = packet.prevOpenInterest;
+    notePrevClose(packet.securityId, packet.prevClose);
+  }
+  tickExtrasStore.set(packet.securityId, extras);
 
-    return {
-      messageType,
-      securityId,
-      price,
-      timestamp,
-    };
-  } catch (error) {
-    console.error('[DhanSocket] Error parsing binary tick:', error);
-    return null;
+  const existing = tickDataStore.get(packet.securityId);
+  if (!existing) return;
+
+  const updated: TickData = {
+    ...existing,
+    ...extras,
+    ...getDayChange(packet.securityId, existing.price),
+    messageType: packet.responseCode,
+    messageTypeLabel: responseCodeLabel(packet.responseCode),
+  };
+  tickDataStore.set(packet.securityId, updated);
+  broadcastTickData(updated);
+}
+
+function handlePacket(packet: FeedPacket) {
+  const { responseCode, securityId } = packet;
+  const messageTypeLabel = responseCodeLabel(responseCode);
+
+  switch (packet.kind) {
+    case 'market_status':
+      console.log(`[DhanSocket] [${messageTypeLabel}] segment=${packet.exchangeSegment}`);
+      return;
+    case 'disconnect':
+      pendingDisconnectCause.serverCode = packet.disconnectCode;
+      pendingDisconnectCause.serverReason = disconnectReason(packet.disconnectCode);
+      console.warn(
+        `[DhanSocket] [${messageTypeLabel}] Server disconnect code=${packet.disconnectCode} (${pendingDisconnectCause.serverReason})`
+      );
+      return;
   }
+
+  const metricLabels = { response_code: responseCode, segment: packet.exchangeSegment };
+  ticksTotal.inc(metricLabels);
+  ticksPerSecond.mark(metricLabels);
+
+  // Any instrument packet shows the subscription is live
+  confirmSubscription(securityId);
+  noteInstrumentPacket(securityId);
+
+  if (packet.kind === 'oi' || packet.kind === 'prev_close') {
+    handleSupplementalPacket(packet);
+    return;
+  }
+
+  const tradeFields = tradeFieldsFromPacket(packet);
+  if (!tradeFields) return;
+
+  const symbol = resolveSymbol(String(securityId));
+  const dayChange = recordDayTick({
+    securityId,
+    price: packet.ltp,
+    timestamp: packet.ltt,
+    open: tradeFields.open,
+    high: tradeFields.high,
+    low: tradeFields.low,
+  });
+
+  // Store tick data, keeping OI / prev OI from earlier packets
+  const tickDataWithSymbol: TickData = {
+    ...tickExtrasStore.get(securityId),
+    ...tradeFields,
+    ...dayChange,
+    securityId,
+    symbol,
+    exchangeSegment: packet.exchangeSegment,
+    price: packet.ltp,
+    timestamp: packet.ltt,
+    messageType: responseCode,
+    messageTypeLabel,
+  };
+  tickDataStore.set(securityId, tickDataWithSymbol);
+
+  // Feed the candle aggregator before broadcasting, so a bar closed by
+  // this tick reaches clients ahead of the tick that opened the next one
+  recordTick(tickDataWithSymbol);
+
+  // Broadcast to SSE clients
+  broadcastTickData(tickDataWithSymbol);
+
+  // After the tick, so clients see the price an alert refers to first
+  evaluateAlerts(tickDataWithSymbol);
+
+  const { price, timestamp } = tickDataWithSymbol;
+
+  // Persist through the configured tick sinks (async, non-blocking)
+  dispatchTick(tickDataWithSymbol);
+
+  // Format timestamp (Unix timestamp in seconds)
+  const date = new Date(timestamp * 1000);
+  const timeStr = date.toLocaleTimeString('en-IN', { timeZone: 'Asia/Kolkata' });
+
+  console.log(
+    `[DhanSocket]    [${messageTypeLabel}] ${symbol} (ID: ${securityId}) | Price: ₹${price.toFixed(2)} | Time: ${timeStr}`
+  );
 }
 
 function handleMessage(data: WebSocket.Data) {
@@ -268,76 +987,102 @@ function handleMessage(data: WebSocket.Data) {
       return;
     }
 
-    // Parse binary tick data
-    const tickData = parseBinaryTick(data);
-    
-    if (!tickData) {
+    // A frame may contain several packets back to back
+    const { packets, errors } = decodeFeedFrame(data);
+
+    if (errors.length > 0) parseFailuresTotal.inc(undefined, errors.length);
+    for (const error of errors) {
       // If parsing fails, log raw hex for debugging
       console.log(
         '[DhanSocket] [BINARY TICK - UNPARSED]',
+        error.reason,
+        'offset =',
+        error.offset,
         'length =',
         data.length,
         'hex =',
-        data.toString('hex').slice(0, 80)
+        data.toString('hex', error.offset).slice(0, 80)
       );
-      return;
     }
 
-    const { messageType, securityId, price, timestamp } = tickData;
-    const symbol = resolveSymbol(String(securityId));
-    
-    // Format timestamp (Unix timestamp in seconds)
-    const date = new Date(timestamp * 1000);
-    const timeStr = date.toLocaleTimeString('en-IN', { timeZone: 'Asia/Kolkata' });
-
-    // Message type labels
-    const messageTypeLabel = messageType === 0x02 ? 'LTP' : messageType === 0x06 ? 'QUOTE' : `TYPE_${messageType}`;
-
-    // Store tick data
-    const tickDataWithSymbol: TickData = {
-      securityId,
-      symbol,
-      price,
-      timestamp,
-      messageType,
-      messageTypeLabel,
-    };
-    tickDataStore.set(securityId, tickDataWithSymbol);
-
-    // Broadcast to SSE clients
-    broadcastTickData(tickDataWithSymbol);
-
-    // Save to Firebase (async, non-blocking)
-    saveStockPrice(symbol, price, securityId, timestamp).catch((error) => {
-      // Error already logged in saveStockPrice, just prevent unhandled rejection
-    });
-
-    console.log(
-      `[DhanSocket]    [${messageTypeLabel}] ${symbol} (ID: ${securityId}) | Price: ₹${price.toFixed(2)} | Time: ${timeStr}`
-    );
+    for (const packet of packets) {
+      handlePacket(packet);
+    }
   } catch (error) {
     console.error('[DhanSocket] Error in handleMessage:', error);
   }
 }
 
+/**
+ * Live socket messages are recorded (when enabled) before being handled;
+ * replayed frames go straight to handleMessage
+ */
+function handleSocketMessage(data: WebSocket.Data) {
+  noteFeedActivity();
+  if (Buffer.isBuffer(data)) recordFrame(data);
+  handleMessage(data);
+}
 
-
-
-
+// =====================
+// Replay Mode
+// =====================
+function startReplay(file: string, speed: ReplaySpeed) {
+  if (replayHandle) return;
+
+  // Time-based candle rollover follows the recording, not the wall clock
+  setCandleClock(() => Math.floor(replayClockMs / 1000));
+
+  const handle = replayRecording(file, {
+    speed,
+    onFrame: (frame) => {
+      replayClockMs = frame.receivedAt;
+      handleMessage(frame.data);
+    },
+    onDone: () => {
+      if (replayHandle !== handle) return;
+      replayHandle = null;
+      resetCandleClock();
+    },
+  });
+  replayHandle = handle;
+}
 
 // =====================
 // WebSocket Lifecycle
 // =====================
 function connectWebSocket() {
-  if (isConnecting || ws) return;
+  if (isConnecting || ws || authFailure) return;
 
-  validateEnv();
   isConnecting = true;
+  const attempt = ++connectAttempt;
+
+  // Read on every connect, so a rotated token is picked up
+  loadDhanCredentials()
+    .then((credentials) => {
+      // closeSocket() or a newer connect got there first
+      if (attempt !== connectAttempt || !isConnecting || ws) return;
+
+      if (!credentials) {
+        isConnecting = false;
+        handleAuthFailure('DHAN_CLIENT_ID / access token not configured', null);
+        return;
+      }
+      openWebSocket(credentials);
+    })
+    .catch((error) => {
+      if (attempt !== connectAttempt || !isConnecting || ws) return;
+
+      isConnecting = false;
+      console.error('[DhanSocket] ❌ Could not load Dhan credentials:', error);
+      scheduleReconnect();
+    });
+}
 
+function openWebSocket(credentials: DhanCredentials) {
   const wsUrl =
     `${DHAN_WS_URL}?version=2` +
-    `&token=${accessToken}` +
-    `&clientId=${clientId}` +
+    `&token=${credentials.accessToken}` +
+    `&clientId=${credentials.clientId}` +
     `&authType=2`;
 
   console.log('[DhanSocket] Connecting...');
@@ -348,10 +1093,21 @@ function connectWebSocket() {
     isConnecting = false;
     reconnectDelay = 5000;
 
+    noteConnected();
+    publishSocketStatus();
     console.log('[DhanSocket] Connected');
     console.log('[DhanSocket] ReadyState:', ws?.readyState, '(OPEN =', WebSocket.OPEN, ')');
     console.log('[DhanSocket] Message listeners:', ws?.listeners('message').length);
-    subscribeToStockCodes();
+    watchlistLoaded.then(subscribeToStockCodes).catch((error) => {
+      console.error('[DhanSocket] ❌ Error subscribing the watchlist:', error);
+    });
+  });
+
+  // A refused handshake (e.g. 401) is aborted here and ends in 'close'
+  ws.on('unexpected-response', (_request, response) => {
+    pendingDisconnectCause.handshakeStatus = response.statusCode ?? null;
+    console.error(`[DhanSocket] ❌ Handshake refused (HTTP ${response.statusCode})`);
+    ws?.terminate();
   });
 
   // Log ping/pong for connection health
@@ -359,12 +1115,13 @@ function connectWebSocket() {
     console.log('[DhanSocket] Received ping');
   });
 
+  // Pongs answer the watchdog's pings
   ws.on('pong', () => {
-    console.log('[DhanSocket] Received pong');
+    notePong();
   });
 
   // Register message handler BEFORE 'open' to catch all messages
-  ws.on('message', handleMessage);
+  ws.on('message', handleSocketMessage);
   console.log('[DhanSocket] Message handler registered, listeners:', ws.listeners('message').length);
   
   // Verify handler is attached
@@ -385,18 +1142,214 @@ function connectWebSocket() {
 
     ws = null;
     isConnecting = false;
+    resetSubscriptionStates();
+    noteDisconnected();
+    lastDisconnect = {
+      at: Date.now(),
+      closeCode: code,
+      closeReason: reason.toString(),
+      ...pendingDisconnectCause,
+    };
+    pendingDisconnectCause = { ...NO_DISCONNECT_CAUSE };
+
+    const authReason = authFailureReason(lastDisconnect);
+    if (authReason) {
+      handleAuthFailure(authReason, credentials.accessToken);
+      return;
+    }
 
-    reconnectTimer = setTimeout(() => {
-      reconnectDelay = Math.min(reconnectDelay * 1.5, 60000);
-      connectWebSocket();
-    }, reconnectDelay);
+    if (!isTradingWindowOpen()) {
+      console.log('[DhanSocket] Outside trading window - not reconnecting');
+      publishSocketStatus();
+      return;
+    }
+
+    scheduleReconnect();
+  });
+}
+
+function scheduleReconnect() {
+  if (reconnectTimer) return;
+
+  reconnectsTotal.inc();
+  nextReconnectDelay = reconnectDelay;
+  reconnectTimer = setTimeout(() => {
+    reconnectTimer = null;
+    nextReconnectDelay = null;
+    reconnectDelay = Math.min(reconnectDelay * 1.5, 60000);
+    connectWebSocket();
+  }, reconnectDelay);
+  publishSocketStatus();
+}
+
+/**
+ * Why a disconnect means the credentials were rejected; null otherwise
+ */
+function authFailureReason(info: DisconnectInfo): string | null {
+  if (info.serverCode !== null && AUTH_DISCONNECT_CODES.has(info.serverCode)) {
+    return `${info.serverReason} (disconnect code ${info.serverCode})`;
+  }
+  if (info.handshakeStatus !== null && AUTH_HANDSHAKE_STATUSES.has(info.handshakeStatus)) {
+    return `Handshake refused with HTTP ${info.handshakeStatus}`;
+  }
+  if (AUTH_CLOSE_CODES.has(info.closeCode)) {
+    return `Closed with code ${info.closeCode}${info.closeReason ? ` (${info.closeReason})` : ''}`;
+  }
+  return null;
+}
+
+/**
+ * Stop reconnecting until the token is replaced, either through
+ * setDhanAccessToken() or in the file / Firestore token source
+ */
+function handleAuthFailure(reason: string, rejectedToken: string | null) {
+  authFailure = { at: Date.now(), reason };
+  authFailuresTotal.inc();
+  if (reconnectTimer) clearTimeout(reconnectTimer);
+  reconnectTimer = null;
+  nextReconnectDelay = null;
+
+  console.error(
+    `[DhanSocket] ❌ Authentication failed: ${reason} - not reconnecting until the access token is replaced`
+  );
+
+  stopTokenWatch?.();
+  stopTokenWatch = watchDhanCredentials(rejectedToken, () => {
+    stopTokenWatch = null;
+    clearAuthFailure();
+    if (isTradingWindowOpen()) connectWebSocket();
+  });
+  publishSocketStatus();
+}
+
+function clearAuthFailure() {
+  stopTokenWatch?.();
+  stopTokenWatch = null;
+  authFailure = null;
+  reconnectDelay = 5000;
+}
+
+/**
+ * Drop a connection that looks dead; the close handler reconnects with backoff.
+ * terminate() rather than close(): a stalled peer may never finish the handshake
+ */
+function forceReconnect(incident: FeedIncident) {
+  pendingDisconnectCause.watchdogReason = incident.reason;
+  ws?.terminate();
+}
+
+function startWatchdog() {
+  startFeedWatchdog({
+    // Pre-open is often silent, so only the normal session counts
+    isMarketOpen: () => isMarketOpen(new Date(), false),
+    subscribedIds: () =>
+      Array.from(subscriptionStates)
+        .filter(([, record]) => record.state !== 'pending')
+        .map(([securityId]) => securityId),
+    sendPing: () => {
+      if (!ws || ws.readyState !== WebSocket.OPEN) return false;
+      ws.ping();
+      return true;
+    },
+    onStale: forceReconnect,
   });
 }
 
+/**
+ * Ask Dhan to close the feed (RequestCode 12), then close our side
+ * without scheduling a reconnect
+ * @returns Whether a socket was open
+ */
+function closeCurrentSocket(reason: string) {
+  if (reconnectTimer) clearTimeout(reconnectTimer);
+  reconnectTimer = null;
+  nextReconnectDelay = null;
+  isConnecting = false;
+
+  if (!ws) return false;
+
+  const socket = ws;
+  ws = null;
+  resetSubscriptionStates();
+  noteDisconnected();
+  socket.removeAllListeners();
+  socket.on('error', () => {});
+
+  if (socket.readyState === WebSocket.OPEN) {
+    socket.send(JSON.stringify({ RequestCode: FEED_REQUEST_CODE.DISCONNECT }));
+  }
+  socket.close(1000, reason);
+  publishSocketStatus();
+  return true;
+}
+
+/**
+ * End-of-session disconnect
+ */
+function disconnectWebSocket() {
+  if (closeCurrentSocket('Session closed')) {
+    console.log('[DhanSocket] Disconnected for end of session');
+  }
+}
+
 // =====================
 // Public API
 // =====================
-export function initDhanSocket() {
+export interface DhanSocketOptions {
+  // Feed a recording through the tick pipeline instead of connecting
+  replayFile?: string;
+  // 1 (real time), N / "Nx" or "max"
+  replaySpeed?: string;
+  // Record raw frames from the live socket ({date} is replaced with the IST date)
+  recordFile?: string;
+  // Connect only around trading sessions (default true; DHAN_SESSION_SCHEDULER=off disables)
+  scheduled?: boolean;
+}
+
+export function initDhanSocket(options: DhanSocketOptions = {}) {
+  // Browser WebSocket clients get the same events as /api/ticks (opt-in)
+  if (process.env.WS_FANOUT_PORT && process.env.WS_FANOUT_PORT !== 'off') {
+    startWsFanout({
+      snapshot: () => Array.from(tickDataStore.values()),
+      status: getSocketStatus,
+    });
+  }
+
+  loadAlerts();
+  startWebhooks();
+
+  const replayFile = options.replayFile ?? process.env.DHAN_REPLAY_FILE;
+  if (replayFile) {
+    // A typo in DHAN_REPLAY_SPEED shouldn't stop the replay (or the module loading)
+    let speed: ReplaySpeed = 1;
+    try {
+      speed = parseReplaySpeed(options.replaySpeed ?? process.env.DHAN_REPLAY_SPEED);
+    } catch (error) {
+      console.error(`[DhanSocket] ❌ ${error instanceof Error ? error.message : error} - replaying at 1x`);
+    }
+    startReplay(replayFile, speed);
+    return;
+  }
+
+  const recordFile = options.recordFile ?? process.env.DHAN_RECORD_FILE;
+  if (recordFile) {
+    startRecording(recordFile);
+  }
+
+  startSubscriptionMonitor();
+  startWatchdog();
+
+  const scheduled = options.scheduled ?? process.env.DHAN_SESSION_SCHEDULER !== 'off';
+  if (scheduled) {
+    startSessionScheduler({
+      segments: getActiveSegments,
+      onWindowOpen: connectWebSocket,
+      onWindowClose: disconnectWebSocket,
+    });
+    return;
+  }
+
+  if (isSessionSchedulerActive()) stopSessionScheduler();
   if (!ws && !isConnecting) {
     connectWebSocket();
   }
@@ -406,8 +1359,16 @@ export function getSocketStatus():
   | 'connecting'
   | 'open'
   | 'closed'
+  | 'replaying'
+  | 'reconnecting'
+  | 'auth_expired'
   | 'not_initialized' {
-  if (!ws) return isConnecting ? 'connecting' : 'not_initialized';
+  if (replayHandle) return 'replaying';
+  if (!ws) {
+    if (isConnecting) return 'connecting';
+    if (authFailure) return 'auth_expired';
+    return reconnectTimer ? 'reconnecting' : 'not_initialized';
+  }
 
   switch (ws.readyState) {
     case WebSocket.OPEN:
@@ -419,10 +1380,48 @@ export function getSocketStatus():
   }
 }
 
+export function getLastDisconnect(): DisconnectInfo | null {
+  return lastDisconnect;
+}
+
+export function getAuthFailure(): AuthFailure | null {
+  return authFailure;
+}
+
+/**
+ * Replace the Dhan access token and reconnect with it
+ * Clears an auth_expired state; an open connection is replaced. Outside the
+ * trading window the token is only stored for the next session.
+ * @returns Whether the token was written back to its source (see dhanCredentials.ts)
+ * @throws Error if the token or client ID is invalid
+ */
+export async function setDhanAccessToken(input: { accessToken?: unknown; clientId?: unknown }) {
+  const persisted = await setDhanCredentials(input);
+  clearAuthFailure();
+
+  // Replays don't use the socket
+  if (replayHandle) return persisted;
+
+  if (closeCurrentSocket('Access token replaced')) {
+    console.log('[DhanSocket] Reconnecting with the new access token');
+  }
+  if (isTradingWindowOpen()) connectWebSocket();
+  publishSocketStatus();
+  return persisted;
+}
+
 export function closeSocket() {
+  stopWsFanout();
+  stopWebhooks();
+  stopSessionScheduler();
+  stopSubscriptionMonitor();
+  stopFeedWatchdog();
+  // A later start retries with whatever token is current
+  clearAuthFailure();
   if (reconnectTimer) clearTimeout(reconnectTimer);
 
   reconnectTimer = null;
+  nextReconnectDelay = null;
   isConnecting = false;
 
   if (ws) {
@@ -430,10 +1429,51 @@ export function closeSocket() {
     ws.close();
     ws = null;
   }
+  resetSubscriptionStates();
+
+  if (replayHandle) {
+    replayHandle.stop();
+    replayHandle = null;
+  }
 
   console.log('[DhanSocket] Closed manually');
 }
 
+// =====================
+// Metrics Collection
+// =====================
+const SOCKET_STATES: ReturnType<typeof getSocketStatus>[] = [
+  'connecting',
+  'open',
+  'closed',
+  'replaying',
+  'reconnecting',
+  'auth_expired',
+  'not_initialized',
+];
+
+registerMetricsCollector(() => {
+  const currentState = getSocketStatus();
+  for (const state of SOCKET_STATES) {
+    socketStateGauge.set({ state }, state === currentState ? 1 : 0);
+  }
+  reconnectBackoffSeconds.set((nextReconnectDelay ?? 0) / 1000);
+  sseClientsGauge.set(getStreamClientCount());
+  sseSlowClientsGauge.set(getStreamClientStats().filter(client => client.slow).length);
+
+  const now = Date.now();
+  const lastPackets = getLastPacketTimes();
+  lastTickAgeSeconds.reset();
+  activeInstruments.forEach((inst, securityId) => {
+    const receivedAt = lastPackets.get(securityId);
+    if (receivedAt === undefined) return;
+    lastTickAgeSeconds.set(
+      { symbol: inst.symbol, security_id: securityId, segment: inst.exchange },
+      (now - receivedAt) / 1000
+    );
+  });
+});
+
 // =====================
 // Auto-init (Server only, skip during build)
 // =====================
@@ -0,0 +1,139 @@
+/**
+ * Readiness and diagnostics for /api/health
+ *
+ * Readiness answers "is the feed delivering?". Outside the normal session
+ * (and while replaying a recording) an idle feed is expected, so the service
+ * stays ready. During the session the socket must be open and packets must
+ * have arrived within READINESS_MAX_PACKET_AGE_MS.
+ *
+ * Liveness needs none of this - see app/api/health/live.
+ */
+import {
+  getActiveSegments,
+  getLastDisconnect,
+  getSocketStatus,
+  getSubscriptions,
+  isMarketOpen,
+} from './dhanSocket';
+import { checkFirestoreConnection, type FirestoreConnectionCheck } from './firebaseServer';
+import { getFeedIncidents, getFeedWatchdogStatus } from './feedWatchdog';
+import { getCurrentSession } from './marketCalendar';
+import { getSessionSchedulerStatus } from './sessionScheduler';
+import { getTickSinkHealth } from './tickSinks';
+import { getStreamClientStats } from './tickStream';
+import { getWsFanoutStatus } from './wsFanout';
+
+// =====================
+// Constants
+// =====================
+const READINESS_MAX_PACKET_AGE_MS = Number(process.env.READINESS_MAX_PACKET_AGE_MS) || 60 * 1000;
+
+// Firestore is probed at most this often; health checks reuse the result
+const FIRESTORE_CHECK_TTL_MS = 30 * 1000;
+
+// =====================
+// Types
+// =====================
+export interface FeedReadiness {
+  ready: boolean;
+  marketOpen: boolean;
+  reasons: string[];
+}
+
+// =====================
+// Readiness
+// =====================
+
+/**
+ * Start of the normal session that is running now (earliest across segments)
+ */
+function sessionOpenedAt(now: Date): number | null {
+  const starts: number[] = [];
+  for (const segment of getActiveSegments()) {
+    const session = getCurrentSession(segment, now);
+    if (session && session.phase !== 'pre_open') starts.push(session.start.getTime());
+  }
+  return starts.length > 0 ? Math.min(...starts) : null;
+}
+
+export function getFeedReadiness(now: number = Date.now()): FeedReadiness {
+  const socket = getSocketStatus();
+  const marketOpen = isMarketOpen(new Date(now), false);
+
+  if (socket === 'replaying' || !marketOpen) {
+    return { ready: true, marketOpen, reasons: [] };
+  }
+
+  const reasons: string[] = [];
+  if (socket !== 'open') {
+    reasons.push(`socket ${socket} during market hours`);
+  } else {
+    const watchdog = getFeedWatchdogStatus(now);
+    // Silence before the connection opened or the session started doesn't count
+    const since = Math.max(
+      watchdog.lastPacketAt ?? 0,
+      watchdog.connectedAt ?? 0,
+      sessionOpenedAt(new Date(now)) ?? 0
+    );
+    if (now - since > READINESS_MAX_PACKET_AGE_MS) {
+      reasons.push(`no packets for ${Math.round((now - since) / 1000)}s during market hours`);
+    }
+  }
+
+  return { ready: reasons.length === 0, marketOpen, reasons };
+}
+
+// =====================
+// Diagnostics
+// =====================
+let firestoreCheck: Promise<FirestoreConnectionCheck> | null = null;
+let firestoreCheckedAt = 0;
+
+function getFirestoreReachability(): Promise<FirestoreConnectionCheck> {
+  if (!firestoreCheck || Date.now() - firestoreCheckedAt > FIRESTORE_CHECK_TTL_MS) {
+    firestoreCheckedAt = Date.now();
+    firestoreCheck = checkFirestoreConnection();
+  }
+  return firestoreCheck;
+}
+
+export async function getFeedDiagnostics() {
+  const now = Date.now();
+  const readiness = getFeedReadiness(now);
+  const watchdog = getFeedWatchdogStatus(now);
+  const subscriptions = getSubscriptions();
+
+  const states: Record<string, number> = {};
+  for (const sub of subscriptions) {
+    states[sub.state] = (states[sub.state] ?? 0) + 1;
+  }
+
+  const symbols = new Map(subscriptions.map(sub => [sub.securityId, sub.symbol]));
+  const { staleInstruments, ...watchdogStatus } = watchdog;
+
+  return {
+    status: readiness.ready ? 'ok' : 'degraded',
+    readiness,
+    uptimeSeconds: Math.round(process.uptime()),
+    websocket: getSocketStatus(),
+    connectedSince: watchdog.connectedAt,
+    subscriptions: {
+      total: subscriptions.length,
+      subscribed: subscriptions.filter(sub => sub.subscribed).length,
+      states,
+    },
+    staleInstruments: staleInstruments.map(inst => ({
+      ...inst,
+      symbol: symbols.get(inst.securityId) ?? null,
+    })),
+    lastDisconnect: getLastDisconnect(),
+    firebase: await getFirestoreReachability(),
+    session: getSessionSchedulerStatus(),
+    watchdog: { ...watchdogStatus, recentIncidents: getFeedIncidents(10) },
+    sinks: getTickSinkHealth(),
+    clients: {
+      sse: getStreamClientStats(now),
+      websocket: getWsFanoutStatus().clients,
+    },
+  };
+}
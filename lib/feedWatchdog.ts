@@ -0,0 +1,222 @@
+/**
+ * Stale-feed watchdog
+ *
+ * The socket's close event only fires when the connection actually drops.
+ * The watchdog catches silent outages on a connection that stays up:
+ * - WebSocket pings every FEED_PING_INTERVAL_MS; no pong within
+ *   FEED_PONG_TIMEOUT_MS means the connection is dead
+ * - No packet at all for FEED_STALE_MS while the market is open means the
+ *   feed is stale
+ *
+ * Either case is recorded as an incident and handed to onStale, which tears
+ * the socket down so the normal reconnect/backoff path takes over.
+ * Per-instrument silence (INSTRUMENT_STALE_MS) is reported but never
+ * forces a reconnect - illiquid instruments can go quiet on their own.
+ */
+
+// =====================
+// Constants
+// =====================
+const FEED_STALE_MS = Number(process.env.FEED_STALE_MS) || 60 * 1000;
+const INSTRUMENT_STALE_MS = Number(process.env.INSTRUMENT_STALE_MS) || 5 * 60 * 1000;
+const PING_INTERVAL_MS = Number(process.env.FEED_PING_INTERVAL_MS) || 20 * 1000;
+const PONG_TIMEOUT_MS = Number(process.env.FEED_PONG_TIMEOUT_MS) || 10 * 1000;
+const CHECK_INTERVAL_MS = 5 * 1000;
+const MAX_INCIDENTS = 100;
+
+// =====================
+// Types
+// =====================
+export type FeedIncidentReason = 'pong_timeout' | 'no_packets';
+
+export interface FeedIncident {
+  at: number;
+  reason: FeedIncidentReason;
+  detail: string;
+  lastPacketAgeMs: number | null;
+  subscribed: number;
+  staleInstruments: number;
+}
+
+export interface FeedWatchdogOptions {
+  // Market hours for the watched segments
+  isMarketOpen: () => boolean;
+  // Security IDs with a live subscription on the socket
+  subscribedIds: () => string[];
+  // Send a WebSocket ping; false when the socket isn't open
+  sendPing: () => boolean;
+  onStale: (incident: FeedIncident) => void;
+}
+
+export interface FeedWatchdogStatus {
+  active: boolean;
+  connectedAt: number | null;
+  lastPacketAt: number | null;
+  lastPacketAgeMs: number | null;
+  lastPongAt: number | null;
+  awaitingPongMs: number | null;
+  staleInstruments: { securityId: string; lastPacketAt: number | null }[];
+  incidents: number;
+  lastIncident: FeedIncident | null;
+}
+
+// =====================
+// State
+// =====================
+let watchdogOptions: FeedWatchdogOptions | null = null;
+let checkTimer: NodeJS.Timeout | null = null;
+
+let connectedAt: number | null = null;
+let lastPacketAt: number | null = null;
+const lastPacketById = new Map<string, number>();
+
+let pingSentAt: number | null = null;
+let lastPingAt: number | null = null;
+let lastPongAt: number | null = null;
+
+// When the market was last seen opening; silence before it doesn't count
+let marketOpenSince: number | null = null;
+
+const incidents: FeedIncident[] = [];
+
+// =====================
+// Activity
+// =====================
+export function noteConnected(now: number = Date.now()) {
+  connectedAt = now;
+  pingSentAt = null;
+  lastPingAt = now;
+}
+
+export function noteDisconnected() {
+  connectedAt = null;
+  pingSentAt = null;
+}
+
+export function noteFeedActivity(now: number = Date.now()) {
+  lastPacketAt = now;
+}
+
+export function noteInstrumentPacket(securityId: number | string, now: number = Date.now()) {
+  lastPacketById.set(String(securityId), now);
+}
+
+export function notePong(now: number = Date.now()) {
+  lastPongAt = now;
+  pingSentAt = null;
+}
+
+// =====================
+// Checks
+// =====================
+function staleInstruments(now: number, baseline: number) {
+  if (!watchdogOptions) return [];
+
+  return watchdogOptions
+    .subscribedIds()
+    .map(securityId => ({ securityId, lastPacketAt: lastPacketById.get(securityId) ?? null }))
+    .filter(({ lastPacketAt: last }) => now - Math.max(last ?? 0, baseline) >= INSTRUMENT_STALE_MS);
+}
+
+function raiseIncident(reason: FeedIncidentReason, detail: string, now: number, staleCount: number) {
+  if (!watchdogOptions) return;
+
+  const incident: FeedIncident = {
+    at: now,
+    reason,
+    detail,
+    lastPacketAgeMs: lastPacketAt === null ? null : now - lastPacketAt,
+    subscribed: watchdogOptions.subscribedIds().length,
+    staleInstruments: staleCount,
+  };
+  incidents.push(incident);
+  if (incidents.length > MAX_INCIDENTS) incidents.splice(0, incidents.length - MAX_INCIDENTS);
+
+  console.error(`[FeedWatchdog] ❌ ${reason}: ${detail} - forcing reconnect`);
+
+  // Nothing more to check until the next connection opens
+  noteDisconnected();
+  try {
+    watchdogOptions.onStale(incident);
+  } catch (error) {
+    console.error('[FeedWatchdog] Error in stale handler:', error);
+  }
+}
+
+export function checkFeed(now: number = Date.now()) {
+  if (!watchdogOptions || connectedAt === null) return;
+
+  if (pingSentAt !== null && now - pingSentAt >= PONG_TIMEOUT_MS) {
+    raiseIncident('pong_timeout', `no pong ${now - pingSentAt}ms after ping`, now, 0);
+    return;
+  }
+
+  if (pingSentAt === null && (lastPingAt === null || now - lastPingAt >= PING_INTERVAL_MS)) {
+    if (watchdogOptions.sendPing()) {
+      pingSentAt = now;
+      lastPingAt = now;
+    }
+  }
+
+  if (!watchdogOptions.isMarketOpen()) {
+    marketOpenSince = null;
+    return;
+  }
+  if (marketOpenSince === null) marketOpenSince = now;
+
+  const baseline = Math.max(connectedAt, marketOpenSince);
+  const silentFor = now - Math.max(lastPacketAt ?? 0, baseline);
+  if (silentFor >= FEED_STALE_MS) {
+    raiseIncident(
+      'no_packets',
+      `no packets for ${Math.round(silentFor / 1000)}s during market hours`,
+      now,
+      staleInstruments(now, baseline).length
+    );
+  }
+}
+
+// =====================
+// Public API
+// =====================
+export function startFeedWatchdog(options: FeedWatchdogOptions) {
+  watchdogOptions = options;
+  if (checkTimer) return;
+
+  checkTimer = setInterval(() => checkFeed(), CHECK_INTERVAL_MS);
+  checkTimer.unref?.();
+}
+
+export function stopFeedWatchdog() {
+  if (checkTimer) clearInterval(checkTimer);
+  checkTimer = null;
+  watchdogOptions = null;
+  noteDisconnected();
+}
+
+/**
+ * Receive time of the last packet per security ID
+ */
+export function getLastPacketTimes(): ReadonlyMap<string, number> {
+  return lastPacketById;
+}
+
+export function getFeedIncidents(limit: number = MAX_INCIDENTS): FeedIncident[] {
+  return incidents.slice(-limit).reverse();
+}
+
+export function getFeedWatchdogStatus(now: number = Date.now()): FeedWatchdogStatus {
+  const baseline = Math.max(connectedAt ?? now, marketOpenSince ?? now);
+  return {
+    active: watchdogOptions !== null,
+    connectedAt,
+    lastPacketAt,
+    lastPacketAgeMs: lastPacketAt === null ? null : now - lastPacketAt,
+    lastPongAt,
+    awaitingPongMs: pingSentAt === null ? null : now - pingSentAt,
+    staleInstruments:
+      connectedAt !== null && marketOpenSince !== null ? staleInstruments(now, baseline) : [],
+    incidents: incidents.length,
+    lastIncident: incidents[incidents.length - 1] ?? null,
+  };
+}
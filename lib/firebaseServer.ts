@@ -4,6 +4,13 @@
  */
 import { initializeApp, getApps, cert } from 'firebase-admin/app';
 import { getFirestore } from 'firebase-admin/firestore';
+import type { DayChange } from './dayStats';
+import {
+  createCounter,
+  createGauge,
+  createHistogram,
+  registerMetricsCollector,
+} from './metrics';
 
 // Firebase configuration
 const firebaseConfig = {
@@ -14,7 +21,7 @@ const firebaseConfig = {
 
 let firestoreDb: ReturnType<typeof getFirestore> | null = null;
 
-function getFirestoreServer() {
+export function getFirestoreServer() {
   // Don't initialize during build time
   if (process.env.NEXT_PHASE === 'phase-production-build') {
     return null;
@@ -56,46 +63,279 @@ function getFirestoreServer() {
   }
 }
 
+export interface FirestoreConnectionCheck {
+  reachable: boolean;
+  latencyMs: number | null;
+  error: string | null;
+  checkedAt: number;
+}
+
+/**
+ * Round-trip a small read to confirm Firestore is reachable
+ * @param timeoutMs - Give up after this long (default 3000)
+ */
+export async function checkFirestoreConnection(timeoutMs = 3000): Promise<FirestoreConnectionCheck> {
+  const startedAt = Date.now();
+  const db = getFirestoreServer();
+  if (!db) {
+    return { reachable: false, latencyMs: null, error: 'Firestore not initialized', checkedAt: startedAt };
+  }
+
+  let timer: NodeJS.Timeout | undefined;
+  try {
+    await Promise.race([
+      db.collection('config').doc('watchlist').get(),
+      new Promise((_, reject) => {
+        timer = setTimeout(() => reject(new Error(`Timed out after ${timeoutMs}ms`)), timeoutMs);
+      }),
+    ]);
+    return { reachable: true, latencyMs: Date.now() - startedAt, error: null, checkedAt: startedAt };
+  } catch (error) {
+    return {
+      reachable: false,
+      latencyMs: null,
+      error: error instanceof Error ? error.message : String(error),
+      checkedAt: startedAt,
+    };
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+// =====================
+// Write-behind buffer for stocks/{symbol}
+// =====================
+// Only the latest price per symbol within a flush window is written,
+// committed in WriteBatches of up to 500 documents
+const FLUSH_INTERVAL_MS = Number(process.env.FIRESTORE_FLUSH_INTERVAL_MS) || 1000;
+const MAX_BATCH_SIZE = 500;
+const MAX_RETRIES = 4;
+const RETRY_BASE_DELAY_MS = 500;
+
+// gRPC status codes worth retrying: DEADLINE_EXCEEDED, RESOURCE_EXHAUSTED,
+// ABORTED, INTERNAL, UNAVAILABLE
+const TRANSIENT_ERROR_CODES = new Set([4, 8, 10, 13, 14]);
+
+interface StockPriceWrite extends Partial<DayChange> {
+  stockName: string;
+  price: number;
+  securityId: number;
+  timestamp: number;
+}
+
+export interface FirestoreWriterStats {
+  queueDepth: number;
+  flushing: boolean;
+  ticksReceived: number;
+  ticksCoalesced: number;
+  writesCommitted: number;
+  batchesCommitted: number;
+  flushes: number;
+  retries: number;
+  errors: number;
+  dropped: number;
+  lastError: string | null;
+  lastFlushAt: number | null;
+  lastFlushLatencyMs: number | null;
+  avgFlushLatencyMs: number | null;
+}
+
+const commitLatencySeconds = createHistogram(
+  'firestore_batch_commit_seconds',
+  'Time to commit one stocks/{symbol} batch, retries included',
+  [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10]
+);
+const writesCommittedTotal = createCounter(
+  'firestore_writes_committed_total',
+  'stocks/{symbol} documents written'
+);
+const writeErrorsTotal = createCounter(
+  'firestore_write_errors_total',
+  'Failed batch commits, by whether the writes were re-queued (transient) or dropped'
+);
+const retriesTotal = createCounter('firestore_write_retries_total', 'Batch commit retries');
+const queueDepthGauge = createGauge(
+  'firestore_write_queue_depth',
+  'Symbols waiting for the next flush'
+);
+
+const pendingWrites = new Map<string, StockPriceWrite>();
+
+registerMetricsCollector(() => {
+  queueDepthGauge.set(pendingWrites.size);
+});
+let flushTimer: NodeJS.Timeout | null = null;
+let flushing = false;
+let ticksSinceFlush = 0;
+
+const writerStats: FirestoreWriterStats = {
+  queueDepth: 0,
+  flushing: false,
+  ticksReceived: 0,
+  ticksCoalesced: 0,
+  writesCommitted: 0,
+  batchesCommitted: 0,
+  flushes: 0,
+  retries: 0,
+  errors: 0,
+  dropped: 0,
+  lastError: null,
+  lastFlushAt: null,
+  lastFlushLatencyMs: null,
+  avgFlushLatencyMs: null,
+};
+
+function isTransientError(error: unknown): boolean {
+  const code = (error as { code?: unknown })?.code;
+  return typeof code === 'number' && TRANSIENT_ERROR_CODES.has(code);
+}
+
+function sleep(ms: number) {
+  return new Promise<void>(resolve => setTimeout(resolve, ms));
+}
+
+async function commitWithRetry(
+  db: NonNullable<ReturnType<typeof getFirestoreServer>>,
+  writes: StockPriceWrite[]
+) {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      const batch = db.batch();
+      const updatedAt = new Date();
+      for (const write of writes) {
+        // Use stockName as document ID in 'stocks' collection
+        batch.set(
+          db.collection('stocks').doc(write.stockName),
+          { ...write, updatedAt },
+          { merge: true } // Merge with existing data if document exists
+        );
+      }
+      await batch.commit();
+      return;
+    } catch (error) {
+      if (attempt >= MAX_RETRIES || !isTransientError(error)) throw error;
+
+      writerStats.retries++;
+      retriesTotal.inc();
+      const delay = RETRY_BASE_DELAY_MS * 2 ** attempt;
+      console.warn(
+        `[Firebase] Batch of ${writes.length} failed (attempt ${attempt + 1}), retrying in ${delay}ms`
+      );
+      await sleep(delay);
+    }
+  }
+}
+
+/**
+ * Commit everything queued so far
+ * Runs one flush at a time; ticks arriving meanwhile wait for the next one
+ */
+export async function flushStockPrices() {
+  if (flushing || pendingWrites.size === 0) return;
+
+  const db = getFirestoreServer();
+  if (!db) return;
+
+  flushing = true;
+  writerStats.flushing = true;
+  const startedAt = Date.now();
+  const writes = Array.from(pendingWrites.values());
+  const windowTicks = ticksSinceFlush;
+  ticksSinceFlush = 0;
+  pendingWrites.clear();
+
+  let committed = 0;
+  let batches = 0;
+
+  for (let i = 0; i < writes.length; i += MAX_BATCH_SIZE) {
+    const chunk = writes.slice(i, i + MAX_BATCH_SIZE);
+    const chunkStartedAt = Date.now();
+    try {
+      await commitWithRetry(db, chunk);
+      commitLatencySeconds.observe((Date.now() - chunkStartedAt) / 1000);
+      writesCommittedTotal.inc(undefined, chunk.length);
+      committed += chunk.length;
+      batches++;
+    } catch (error) {
+      writeErrorsTotal.inc({ kind: isTransientError(error) ? 'transient' : 'permanent' });
+      writerStats.errors++;
+      writerStats.lastError = error instanceof Error ? error.message : String(error);
+      console.error(`[Firebase] ❌ Error committing batch of ${chunk.length} stock prices:`, error);
+
+      if (isTransientError(error)) {
+        // Put back anything that hasn't been superseded by a newer tick
+        for (const write of chunk) {
+          if (!pendingWrites.has(write.stockName)) pendingWrites.set(write.stockName, write);
+        }
+      } else {
+        writerStats.dropped += chunk.length;
+      }
+    }
+  }
+
+  const latency = Date.now() - startedAt;
+  writerStats.flushes++;
+  writerStats.writesCommitted += committed;
+  writerStats.batchesCommitted += batches;
+  writerStats.lastFlushAt = Date.now();
+  writerStats.lastFlushLatencyMs = latency;
+  writerStats.avgFlushLatencyMs =
+    writerStats.avgFlushLatencyMs === null
+      ? latency
+      : Math.round(writerStats.avgFlushLatencyMs * 0.9 + latency * 0.1);
+  writerStats.queueDepth = pendingWrites.size;
+  flushing = false;
+  writerStats.flushing = false;
+
+  if (committed > 0) {
+    console.log(
+      `[Firebase] ✅ Flushed ${committed}/${writes.length} symbols from ${windowTicks} ticks in ${batches} batch(es), ${latency}ms`
+    );
+  }
+}
+
+function ensureFlushTimer() {
+  if (flushTimer) return;
+  flushTimer = setInterval(() => {
+    flushStockPrices().catch((error) => {
+      console.error('[Firebase] ❌ Unexpected flush error:', error);
+    });
+  }, FLUSH_INTERVAL_MS);
+  flushTimer.unref?.();
+}
+
+export function getFirestoreWriterStats(): FirestoreWriterStats {
+  return { ...writerStats, queueDepth: pendingWrites.size };
+}
+
 /**
- * Store or update stock price in Firestore
+ * Queue a stock price for the stocks/{symbol} document
+ * Writes are coalesced per symbol and committed by the flush timer
  * @param stockName - Stock symbol/name
  * @param price - Current price
  * @param securityId - Security ID
  * @param timestamp - Unix timestamp
+ * @param dayChange - Previous close / day change fields, when known
+ * @throws Error if Firestore is not initialized
  */
-export async function saveStockPrice(
+export function saveStockPrice(
   stockName: string,
   price: number,
   securityId: number,
-  timestamp: number
+  timestamp: number,
+  dayChange: Partial<DayChange> = {}
 ) {
-  try {
-    const db = getFirestoreServer();
-    if (!db) {
-      console.error('[Firebase] Firestore not initialized - skipping save');
-      return;
-    }
+  if (!getFirestoreServer()) {
+    throw new Error('Firestore not initialized');
+  }
 
-    // Use stockName as document ID in 'stocks' collection
-    const stockRef = db.collection('stocks').doc(stockName);
-
-    await stockRef.set(
-      {
-        stockName,
-        price,
-        securityId,
-        timestamp,
-        updatedAt: new Date(),
-      },
-      { merge: true } // Merge with existing data if document exists
-    );
+  writerStats.ticksReceived++;
+  ticksSinceFlush++;
+  if (pendingWrites.has(stockName)) writerStats.ticksCoalesced++;
+  // Firestore rejects undefined fields
+  const fields = Object.entries(dayChange).filter(([, value]) => value !== undefined);
+  const write: StockPriceWrite = { ...Object.fromEntries(fields), stockName, price, securityId, timestamp };
+  pendingWrites.set(stockName, write);
 
-    // Only log occasionally to avoid spam (log every 10th update or first update)
-    if (Math.random() < 0.1 || timestamp % 10 === 0) {
-      console.log(`[Firebase] ✅ Updated ${stockName}: ₹${price.toFixed(2)}`);
-    }
-  } catch (error) {
-    console.error(`[Firebase] ❌ Error saving stock price for ${stockName}:`, error);
-  }
+  ensureFlushTimer();
 }
-
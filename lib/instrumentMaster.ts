@@ -0,0 +1,415 @@
+/**
+ * Dhan instrument master (scrip master CSV)
+ *
+ * Loads the full Dhan scrip-master CSV once per process and indexes it by
+ * security ID, trading symbol and underlying symbol.
+ *
+ * Source (first match wins):
+ * - DHAN_INSTRUMENTS_CSV: path to a local CSV file
+ * - ./dhan-instruments.csv in the project root
+ * - DHAN_SCRIP_MASTER_URL (defaults to Dhan's detailed scrip master)
+ *
+ * Both the detailed (EXCH_ID, SEGMENT, ...) and compact (SEM_*, SM_*)
+ * column layouts are understood.
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+
+// =====================
+// Constants
+// =====================
+const DEFAULT_CSV_PATH = path.join(process.cwd(), 'dhan-instruments.csv');
+const DEFAULT_SCRIP_MASTER_URL =
+  'https://images.dhan.co/api-data/api-scrip-master-detailed.csv';
+
+const DEFAULT_SEARCH_LIMIT = 25;
+const MAX_SEARCH_LIMIT = 200;
+
+// (EXCH_ID, SEGMENT) -> feed exchange segment
+const SEGMENT_MAP: Record<string, string> = {
+  'NSE:E': 'NSE_EQ',
+  'NSE:D': 'NSE_FNO',
+  'NSE:C': 'NSE_CURRENCY',
+  'BSE:E': 'BSE_EQ',
+  'BSE:D': 'BSE_FNO',
+  'BSE:C': 'BSE_CURRENCY',
+  'MCX:M': 'MCX_COMM',
+};
+
+// Column aliases: detailed CSV name first, compact CSV name second
+const COLUMNS = {
+  exchange: ['EXCH_ID', 'SEM_EXM_EXCH_ID'],
+  segment: ['SEGMENT', 'SEM_SEGMENT'],
+  securityId: ['SECURITY_ID', 'SEM_SMST_SECURITY_ID'],
+  isin: ['ISIN'],
+  instrument: ['INSTRUMENT', 'SEM_INSTRUMENT_NAME'],
+  instrumentType: ['INSTRUMENT_TYPE', 'SEM_EXCH_INSTRUMENT_TYPE'],
+  underlyingSecurityId: ['UNDERLYING_SECURITY_ID'],
+  underlyingSymbol: ['UNDERLYING_SYMBOL'],
+  symbolName: ['SYMBOL_NAME', 'SM_SYMBOL_NAME'],
+  tradingSymbol: ['SEM_TRADING_SYMBOL'],
+  displayName: ['DISPLAY_NAME', 'SEM_CUSTOM_SYMBOL'],
+  series: ['SERIES', 'SEM_SERIES'],
+  lotSize: ['LOT_SIZE', 'SEM_LOT_UNITS'],
+  expiryDate: ['SM_EXPIRY_DATE', 'SEM_EXPIRY_DATE'],
+  strikePrice: ['STRIKE_PRICE', 'SEM_STRIKE_PRICE'],
+  optionType: ['OPTION_TYPE', 'SEM_OPTION_TYPE'],
+  tickSize: ['TICK_SIZE', 'SEM_TICK_SIZE'],
+} as const;
+
+type ColumnKey = keyof typeof COLUMNS;
+
+// =====================
+// Types
+// =====================
+export interface MasterInstrument {
+  securityId: string;
+  exchange: string;
+  segment: string;
+  exchangeSegment: string;
+  instrument: string;
+  instrumentType: string;
+  tradingSymbol: string;
+  symbolName: string;
+  displayName: string;
+  underlyingSymbol: string | null;
+  underlyingSecurityId: string | null;
+  isin: string | null;
+  series: string | null;
+  lotSize: number;
+  tickSize: number;
+  expiryDate: string | null; // YYYY-MM-DD
+  strikePrice: number | null;
+  optionType: 'CE' | 'PE' | null;
+}
+
+export interface InstrumentSearchOptions {
+  exchangeSegment?: string;
+  instrument?: string;
+  limit?: number;
+}
+
+interface InstrumentIndex {
+  all: MasterInstrument[];
+  bySecurityId: Map<string, MasterInstrument[]>;
+  byTradingSymbol: Map<string, MasterInstrument[]>;
+  byUnderlying: Map<string, MasterInstrument[]>;
+  loadedAt: number;
+  source: string;
+}
+
+// =====================
+// State
+// =====================
+let index: InstrumentIndex | null = null;
+let loading: Promise<InstrumentIndex> | null = null;
+
+// =====================
+// CSV Parsing
+// =====================
+function parseCsvLine(line: string): string[] {
+  const fields: string[] = [];
+  let current = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (char === '"') {
+      if (inQuotes && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else {
+        inQuotes = !inQuotes;
+      }
+    } else if (char === ',' && !inQuotes) {
+      fields.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  fields.push(current.trim());
+  return fields;
+}
+
+function resolveColumns(headers: string[]): Record<ColumnKey, number> {
+  const resolved = {} as Record<ColumnKey, number>;
+  for (const key of Object.keys(COLUMNS) as ColumnKey[]) {
+    resolved[key] = COLUMNS[key]
+      .map(name => headers.indexOf(name))
+      .find(i => i !== -1) ?? -1;
+  }
+  return resolved;
+}
+
+function toNumber(value: string | undefined): number | null {
+  if (!value) return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+function toDate(value: string | undefined): string | null {
+  if (!value || value === '0' || value.startsWith('1970')) return null;
+  // "2024-12-26 14:30:00" or "2024-12-26"
+  return value.slice(0, 10);
+}
+
+function buildInstrument(
+  fields: string[],
+  columns: Record<ColumnKey, number>
+): MasterInstrument | null {
+  const get = (key: ColumnKey) => {
+    const i = columns[key];
+    return i === -1 ? '' : (fields[i] ?? '').trim();
+  };
+
+  const securityId = get('securityId');
+  const exchange = get('exchange');
+  const segment = get('segment');
+  if (!securityId || !exchange) return null;
+
+  const underlyingSymbol = get('underlyingSymbol');
+  const symbolName = get('symbolName');
+  const optionType = get('optionType');
+  const strikePrice = toNumber(get('strikePrice'));
+
+  // The detailed CSV keeps the equity trading symbol in UNDERLYING_SYMBOL
+  // and the company name in SYMBOL_NAME; derivatives use SYMBOL_NAME
+  const tradingSymbol =
+    get('tradingSymbol') ||
+    (segment === 'E' && underlyingSymbol ? underlyingSymbol : symbolName);
+
+  return {
+    securityId,
+    exchange,
+    segment,
+    exchangeSegment: segment === 'I' ? 'IDX_I' : SEGMENT_MAP[`${exchange}:${segment}`] ?? `${exchange}_${segment}`,
+    instrument: get('instrument'),
+    instrumentType: get('instrumentType'),
+    tradingSymbol,
+    symbolName,
+    displayName: get('displayName') || tradingSymbol,
+    underlyingSymbol: underlyingSymbol || null,
+    underlyingSecurityId: get('underlyingSecurityId') || null,
+    isin: get('isin') || null,
+    series: get('series') || null,
+    lotSize: toNumber(get('lotSize')) ?? 1,
+    tickSize: toNumber(get('tickSize')) ?? 0.05,
+    expiryDate: toDate(get('expiryDate')),
+    strikePrice: strikePrice && strikePrice > 0 ? strikePrice : null,
+    optionType: optionType === 'CE' || optionType === 'PE' ? optionType : null,
+  };
+}
+
+function addToIndex(map: Map<string, MasterInstrument[]>, key: string, inst: MasterInstrument) {
+  if (!key) return;
+  const normalized = key.toUpperCase();
+  const list = map.get(normalized);
+  if (list) {
+    list.push(inst);
+  } else {
+    map.set(normalized, [inst]);
+  }
+}
+
+/**
+ * Parse scrip-master CSV content into an indexed instrument set
+ * @param content - Raw CSV text
+ * @param source - File path or URL the content came from (for diagnostics)
+ */
+export function buildInstrumentIndex(content: string, source: string): InstrumentIndex {
+  const lines = content.split(/\r?\n/);
+  const headers = parseCsvLine(lines[0] ?? '');
+  const columns = resolveColumns(headers);
+
+  if (columns.securityId === -1 || columns.exchange === -1 || columns.segment === -1) {
+    throw new Error(`Unrecognised scrip master columns in ${source}`);
+  }
+
+  const built: InstrumentIndex = {
+    all: [],
+    bySecurityId: new Map(),
+    byTradingSymbol: new Map(),
+    byUnderlying: new Map(),
+    loadedAt: Date.now(),
+    source,
+  };
+
+  for (let i = 1; i < lines.length; i++) {
+    const line = lines[i].trim();
+    if (!line) continue;
+
+    const inst = buildInstrument(parseCsvLine(line), columns);
+    if (!inst) continue;
+
+    built.all.push(inst);
+    addToIndex(built.bySecurityId, inst.securityId, inst);
+    addToIndex(built.byTradingSymbol, inst.tradingSymbol, inst);
+    // Equities and indices list themselves as their own underlying
+    if (inst.underlyingSymbol && inst.segment !== 'E' && inst.segment !== 'I') {
+      addToIndex(built.byUnderlying, inst.underlyingSymbol, inst);
+    }
+  }
+
+  return built;
+}
+
+// =====================
+// Loading
+// =====================
+async function readScripMaster(): Promise<{ content: string; source: string }> {
+  const csvPath = process.env.DHAN_INSTRUMENTS_CSV ?? DEFAULT_CSV_PATH;
+  if (fs.existsSync(csvPath)) {
+    return { content: await fs.promises.readFile(csvPath, 'utf-8'), source: csvPath };
+  }
+
+  const url = process.env.DHAN_SCRIP_MASTER_URL ?? DEFAULT_SCRIP_MASTER_URL;
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to download scrip master (${response.status}) from ${url}`);
+  }
+  return { content: await response.text(), source: url };
+}
+
+/**
+ * Load (once) and return the instrument index
+ * Concurrent callers share the same in-flight load
+ */
+export async function loadInstrumentMaster(): Promise<InstrumentIndex> {
+  if (index) return index;
+  if (loading) return loading;
+
+  loading = (async () => {
+    const startedAt = Date.now();
+    const { content, source } = await readScripMaster();
+    const built = buildInstrumentIndex(content, source);
+
+    console.log(
+      `[InstrumentMaster] Loaded ${built.all.length} instruments from ${source} in ${Date.now() - startedAt}ms`
+    );
+    index = built;
+    return built;
+  })();
+
+  try {
+    return await loading;
+  } catch (error) {
+    console.error('[InstrumentMaster] ❌ Error loading scrip master:', error);
+    throw error;
+  } finally {
+    loading = null;
+  }
+}
+
+/**
+ * Drop the cached index so the next call reloads the CSV
+ */
+export function resetInstrumentMaster() {
+  index = null;
+}
+
+export function getInstrumentMasterStatus() {
+  return {
+    loaded: index !== null,
+    count: index?.all.length ?? 0,
+    source: index?.source ?? null,
+    loadedAt: index?.loadedAt ?? null,
+  };
+}
+
+// =====================
+// Lookups
+// =====================
+
+/**
+ * Result limit as a whole number in 1..MAX_SEARCH_LIMIT, whatever the caller
+ * passed (DEFAULT_SEARCH_LIMIT when unset or not a number)
+ */
+export function clampSearchLimit(limit?: number) {
+  const requested = Math.floor(limit ?? DEFAULT_SEARCH_LIMIT);
+  return Number.isFinite(requested)
+    ? Math.min(Math.max(requested, 1), MAX_SEARCH_LIMIT)
+    : DEFAULT_SEARCH_LIMIT;
+}
+function matchesFilters(inst: MasterInstrument, options: InstrumentSearchOptions) {
+  if (options.exchangeSegment && inst.exchangeSegment !== options.exchangeSegment) return false;
+  if (options.instrument && inst.instrument !== options.instrument) return false;
+  return true;
+}
+
+export async function getInstrumentBySecurityId(
+  securityId: string,
+  exchangeSegment?: string
+): Promise<MasterInstrument | null> {
+  const { bySecurityId } = await loadInstrumentMaster();
+  const matches = bySecurityId.get(String(securityId)) ?? [];
+  return matches.find(inst => !exchangeSegment || inst.exchangeSegment === exchangeSegment) ?? null;
+}
+
+export async function getInstrumentsByTradingSymbol(
+  tradingSymbol: string,
+  options: InstrumentSearchOptions = {}
+): Promise<MasterInstrument[]> {
+  const { byTradingSymbol } = await loadInstrumentMaster();
+  return (byTradingSymbol.get(tradingSymbol.toUpperCase()) ?? []).filter(inst =>
+    matchesFilters(inst, options)
+  );
+}
+
+/**
+ * Derivatives whose underlying is the given symbol (e.g. "NIFTY"); all of
+ * them unless `limit` is set, which is clamped like a search's
+ */
+export async function getInstrumentsByUnderlying(
+  underlyingSymbol: string,
+  options: InstrumentSearchOptions = {}
+): Promise<MasterInstrument[]> {
+  const { byUnderlying } = await loadInstrumentMaster();
+  const matches = (byUnderlying.get(underlyingSymbol.toUpperCase()) ?? []).filter(inst =>
+    matchesFilters(inst, options)
+  );
+  return options.limit === undefined ? matches : matches.slice(0, clampSearchLimit(options.limit));
+}
+
+/**
+ * Search by security ID, trading symbol or display name
+ * Ranking: exact security ID, exact symbol, symbol prefix, then substring
+ */
+export async function searchInstruments(
+  query: string,
+  options: InstrumentSearchOptions = {}
+): Promise<MasterInstrument[]> {
+  const built = await loadInstrumentMaster();
+  const q = query.trim().toUpperCase();
+  const limit = clampSearchLimit(options.limit);
+  if (!q) return [];
+
+  const results: MasterInstrument[] = [];
+  const seen = new Set<MasterInstrument>();
+  const push = (inst: MasterInstrument) => {
+    if (results.length >= limit || seen.has(inst) || !matchesFilters(inst, options)) return;
+    seen.add(inst);
+    results.push(inst);
+  };
+
+  (built.bySecurityId.get(q) ?? []).forEach(push);
+  (built.byTradingSymbol.get(q) ?? []).forEach(push);
+
+  for (const inst of built.all) {
+    if (results.length >= limit) break;
+    if (inst.tradingSymbol.toUpperCase().startsWith(q)) push(inst);
+  }
+
+  for (const inst of built.all) {
+    if (results.length >= limit) break;
+    if (
+      inst.tradingSymbol.toUpperCase().includes(q) ||
+      inst.displayName.toUpperCase().includes(q) ||
+      inst.symbolName.toUpperCase().includes(q)
+    ) {
+      push(inst);
+    }
+  }
+
+  return results;
+}
@@ -0,0 +1,274 @@
+/**
+ * Trading calendar for Indian exchange segments
+ *
+ * - Per-segment session definitions in IST (pre-open, normal, evening)
+ * - Weekends and exchange holidays are closed
+ * - Special sessions (e.g. Muhurat trading) open a segment on a date that
+ *   would otherwise be closed, or replace that day's sessions
+ * - Sessions that end before they start (e.g. 17:00-00:30) wrap past midnight
+ *
+ * Holidays and special sessions are loaded from MARKET_CALENDAR_FILE
+ * (default ./market-calendar.json); see market-calendar.example.json.
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+
+// =====================
+// Constants
+// =====================
+const IST_OFFSET_MS = 330 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_CALENDAR_FILE = path.join(process.cwd(), 'market-calendar.json');
+
+// How far ahead to look for the next session before giving up
+const MAX_LOOKAHEAD_DAYS = 30;
+
+export type SessionPhase = 'pre_open' | 'normal' | 'evening' | 'special';
+
+export interface SessionDefinition {
+  phase: SessionPhase;
+  start: string; // HH:MM IST
+  end: string; // HH:MM IST; earlier than start means the next day
+}
+
+export const SEGMENT_SESSIONS: Record<string, SessionDefinition[]> = {
+  NSE_EQ: [
+    { phase: 'pre_open', start: '09:00', end: '09:08' },
+    { phase: 'normal', start: '09:15', end: '15:30' },
+  ],
+  BSE_EQ: [
+    { phase: 'pre_open', start: '09:00', end: '09:08' },
+    { phase: 'normal', start: '09:15', end: '15:30' },
+  ],
+  NSE_FNO: [{ phase: 'normal', start: '09:15', end: '15:30' }],
+  BSE_FNO: [{ phase: 'normal', start: '09:15', end: '15:30' }],
+  IDX_I: [{ phase: 'normal', start: '09:15', end: '15:30' }],
+  NSE_CURRENCY: [{ phase: 'normal', start: '09:00', end: '17:00' }],
+  BSE_CURRENCY: [{ phase: 'normal', start: '09:00', end: '17:00' }],
+  MCX_COMM: [
+    { phase: 'normal', start: '09:00', end: '17:00' },
+    { phase: 'evening', start: '17:00', end: '23:30' },
+  ],
+};
+
+// =====================
+// Types
+// =====================
+export interface CalendarHoliday {
+  date: string; // YYYY-MM-DD
+  name?: string;
+  // Segments closed on this date; all segments when omitted
+  segments?: string[];
+}
+
+export interface CalendarSpecialSession {
+  date: string; // YYYY-MM-DD
+  name?: string;
+  segments?: string[];
+  sessions: { start: string; end: string }[];
+}
+
+export interface MarketCalendarConfig {
+  holidays?: CalendarHoliday[];
+  specialSessions?: CalendarSpecialSession[];
+}
+
+export interface TradingSession {
+  segment: string;
+  phase: SessionPhase;
+  name?: string;
+  start: Date;
+  end: Date;
+}
+
+export interface SegmentStatus {
+  segment: string;
+  open: boolean;
+  phase: SessionPhase | null;
+  session: TradingSession | null;
+  nextOpen: Date | null;
+  holiday: string | null;
+}
+
+// =====================
+// State
+// =====================
+let holidays: CalendarHoliday[] = [];
+let specialSessions: CalendarSpecialSession[] = [];
+let calendarSource: string | null = null;
+
+// =====================
+// IST Helpers
+// =====================
+function istDateString(at: Date): string {
+  return new Date(at.getTime() + IST_OFFSET_MS).toISOString().slice(0, 10);
+}
+
+function istDayOfWeek(dateStr: string): number {
+  return new Date(`${dateStr}T00:00:00Z`).getUTCDay();
+}
+
+function addDays(dateStr: string, days: number): string {
+  return new Date(Date.parse(`${dateStr}T00:00:00Z`) + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+function istDateTime(dateStr: string, hhmm: string): Date {
+  const [hours, minutes] = hhmm.split(':').map(Number);
+  return new Date(Date.parse(`${dateStr}T00:00:00Z`) + (hours * 60 + minutes) * 60 * 1000 - IST_OFFSET_MS);
+}
+
+function appliesTo(entry: { segments?: string[] }, segment: string) {
+  return !entry.segments || entry.segments.includes(segment);
+}
+
+function buildSession(
+  segment: string,
+  dateStr: string,
+  phase: SessionPhase,
+  start: string,
+  end: string,
+  name?: string
+): TradingSession {
+  const startAt = istDateTime(dateStr, start);
+  let endAt = istDateTime(dateStr, end);
+  if (endAt <= startAt) endAt = new Date(endAt.getTime() + DAY_MS);
+  return { segment, phase, name, start: startAt, end: endAt };
+}
+
+// =====================
+// Calendar Loading
+// =====================
+
+/**
+ * Replace the holiday / special-session list
+ */
+export function setMarketCalendar(config: MarketCalendarConfig, source = 'inline') {
+  holidays = config.holidays ?? [];
+  specialSessions = config.specialSessions ?? [];
+  calendarSource = source;
+  console.log(
+    `[MarketCalendar] Loaded ${holidays.length} holidays and ${specialSessions.length} special sessions from ${source}`
+  );
+}
+
+/**
+ * Load the calendar from a JSON file
+ * A missing file leaves only weekends closed
+ */
+export function loadMarketCalendar(
+  filePath: string = process.env.MARKET_CALENDAR_FILE ?? DEFAULT_CALENDAR_FILE
+) {
+  if (!fs.existsSync(filePath)) {
+    console.warn(`[MarketCalendar] ${filePath} not found - only weekends are treated as closed`);
+    return;
+  }
+
+  try {
+    setMarketCalendar(JSON.parse(fs.readFileSync(filePath, 'utf-8')), filePath);
+  } catch (error) {
+    console.error(`[MarketCalendar] ❌ Error loading ${filePath}:`, error);
+  }
+}
+
+export function getMarketCalendarInfo() {
+  return {
+    source: calendarSource,
+    holidays: holidays.length,
+    specialSessions: specialSessions.length,
+  };
+}
+
+// =====================
+// Queries
+// =====================
+export function getHoliday(segment: string, dateStr: string): CalendarHoliday | null {
+  return holidays.find(h => h.date === dateStr && appliesTo(h, segment)) ?? null;
+}
+
+/**
+ * Sessions that start on the given IST date
+ * @param dateStr - YYYY-MM-DD (IST)
+ */
+export function getSessionsForDate(segment: string, dateStr: string): TradingSession[] {
+  const special = specialSessions.filter(s => s.date === dateStr && appliesTo(s, segment));
+  if (special.length > 0) {
+    return special.flatMap(s =>
+      s.sessions.map(({ start, end }) => buildSession(segment, dateStr, 'special', start, end, s.name))
+    );
+  }
+
+  const dayOfWeek = istDayOfWeek(dateStr);
+  if (dayOfWeek === 0 || dayOfWeek === 6) return [];
+  if (getHoliday(segment, dateStr)) return [];
+
+  return (SEGMENT_SESSIONS[segment] ?? SEGMENT_SESSIONS.NSE_EQ).map(def =>
+    buildSession(segment, dateStr, def.phase, def.start, def.end)
+  );
+}
+
+/**
+ * Current session for a segment, if any
+ * Yesterday's sessions are checked too, for sessions that wrap midnight
+ */
+export function getCurrentSession(segment: string, at: Date = new Date()): TradingSession | null {
+  const today = istDateString(at);
+  const candidates = [
+    ...getSessionsForDate(segment, addDays(today, -1)),
+    ...getSessionsForDate(segment, today),
+  ];
+  return candidates.find(s => at >= s.start && at < s.end) ?? null;
+}
+
+/**
+ * @param includePreOpen - Treat the pre-open auction as open (default true)
+ */
+export function isSegmentOpen(
+  segment: string,
+  at: Date = new Date(),
+  includePreOpen = true
+): boolean {
+  const session = getCurrentSession(segment, at);
+  if (!session) return false;
+  return includePreOpen || session.phase !== 'pre_open';
+}
+
+export function getNextSessionStart(segment: string, from: Date = new Date()): TradingSession | null {
+  const today = istDateString(from);
+  for (let offset = 0; offset <= MAX_LOOKAHEAD_DAYS; offset++) {
+    const next = getSessionsForDate(segment, addDays(today, offset)).find(s => s.start > from);
+    if (next) return next;
+  }
+  return null;
+}
+
+export function getSegmentStatus(segment: string, at: Date = new Date()): SegmentStatus {
+  const session = getCurrentSession(segment, at);
+  return {
+    segment,
+    open: session !== null,
+    phase: session?.phase ?? null,
+    session,
+    nextOpen: session ? null : getNextSessionStart(segment, at)?.start ?? null,
+    holiday: getHoliday(segment, istDateString(at))?.name ?? null,
+  };
+}
+
+/**
+ * End of the trading window that contains `at`: sessions that touch or
+ * overlap (e.g. MCX day + evening) are merged
+ */
+export function getSessionWindowEnd(segment: string, at: Date = new Date()): Date | null {
+  let current = getCurrentSession(segment, at);
+  if (!current) return null;
+
+  let end = current.end;
+  for (;;) {
+    const next = getCurrentSession(segment, end);
+    if (!next || next.end <= end) return end;
+    current = next;
+    end = current.end;
+  }
+}
+
+// Load on first import
+loadMarketCalendar();
@@ -0,0 +1,234 @@
+/**
+ * Minimal Prometheus metrics registry
+ *
+ * Counters, gauges, histograms and windowed rates with labels, rendered in
+ * the Prometheus text exposition format by /api/metrics. Values that are
+ * cheaper to read than to track (socket state, queue depths, tick ages)
+ * are filled in by collectors that run just before each render.
+ */
+
+// =====================
+// Types
+// =====================
+export type MetricLabels = Record<string, string | number>;
+
+type MetricType = 'counter' | 'gauge' | 'histogram';
+
+interface Metric {
+  name: string;
+  help: string;
+  type: MetricType;
+  render(): string[];
+}
+
+export interface Counter {
+  inc(labels?: MetricLabels, value?: number): void;
+}
+
+export interface Gauge {
+  set(labels: MetricLabels, value: number): void;
+  set(value: number): void;
+  // Drop every series (for gauges rebuilt by a collector)
+  reset(): void;
+}
+
+export interface Histogram {
+  observe(value: number, labels?: MetricLabels): void;
+}
+
+export interface RateMeter {
+  mark(labels?: MetricLabels, count?: number): void;
+}
+
+// =====================
+// Registry
+// =====================
+const metrics = new Map<string, Metric>();
+const collectors = new Set<() => void>();
+
+// Re-registering a name replaces the old metric, so modules reloaded in
+// dev don't leave stale series behind
+function register(metric: Metric) {
+  metrics.set(metric.name, metric);
+}
+
+function escapeLabelValue(value: string | number): string {
+  return String(value).replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+}
+
+function labelKey(labels: MetricLabels = {}): string {
+  const entries = Object.keys(labels)
+    .sort()
+    .map(key => `${key}="${escapeLabelValue(labels[key])}"`);
+  return entries.length > 0 ? `{${entries.join(',')}}` : '';
+}
+
+function withLabel(key: string, name: string, value: string): string {
+  const label = `${name}="${value}"`;
+  return key ? `${key.slice(0, -1)},${label}}` : `{${label}}`;
+}
+
+function formatValue(value: number): string {
+  if (Number.isNaN(value)) return 'NaN';
+  if (value === Infinity) return '+Inf';
+  if (value === -Infinity) return '-Inf';
+  return String(value);
+}
+
+// =====================
+// Metric Types
+// =====================
+export function createCounter(name: string, help: string): Counter {
+  const values = new Map<string, number>();
+  register({
+    name,
+    help,
+    type: 'counter',
+    render: () => Array.from(values, ([key, value]) => `${name}${key} ${formatValue(value)}`),
+  });
+
+  return {
+    inc: (labels, value = 1) => {
+      const key = labelKey(labels);
+      values.set(key, (values.get(key) ?? 0) + value);
+    },
+  };
+}
+
+export function createGauge(name: string, help: string): Gauge {
+  const values = new Map<string, number>();
+  register({
+    name,
+    help,
+    type: 'gauge',
+    render: () => Array.from(values, ([key, value]) => `${name}${key} ${formatValue(value)}`),
+  });
+
+  return {
+    set: (labelsOrValue: MetricLabels | number, value?: number) => {
+      if (typeof labelsOrValue === 'number') {
+        values.set('', labelsOrValue);
+      } else {
+        values.set(labelKey(labelsOrValue), value ?? 0);
+      }
+    },
+    reset: () => values.clear(),
+  };
+}
+
+export function createHistogram(name: string, help: string, buckets: number[]): Histogram {
+  const bounds = [...buckets].sort((a, b) => a - b);
+  const series = new Map<string, { counts: number[]; sum: number; count: number }>();
+
+  register({
+    name,
+    help,
+    type: 'histogram',
+    render: () =>
+      Array.from(series).flatMap(([key, { counts, sum, count }]) => [
+        ...bounds.map((bound, i) => `${name}_bucket${withLabel(key, 'le', String(bound))} ${counts[i]}`),
+        `${name}_bucket${withLabel(key, 'le', '+Inf')} ${count}`,
+        `${name}_sum${key} ${formatValue(sum)}`,
+        `${name}_count${key} ${count}`,
+      ]),
+  });
+
+  return {
+    observe: (value, labels) => {
+      const key = labelKey(labels);
+      let entry = series.get(key);
+      if (!entry) {
+        entry = { counts: bounds.map(() => 0), sum: 0, count: 0 };
+        series.set(key, entry);
+      }
+      bounds.forEach((bound, i) => {
+        if (value <= bound) entry!.counts[i]++;
+      });
+      entry.sum += value;
+      entry.count++;
+    },
+  };
+}
+
+/**
+ * Events per second averaged over a sliding window, exposed as a gauge
+ * Use a counter and rate() where the scraper can do the maths; this is for
+ * dashboards that read the value directly
+ */
+export function createRateMeter(name: string, help: string, windowSeconds = 10): RateMeter {
+  // label key -> per-second buckets [second, count]
+  const buckets = new Map<string, Map<number, number>>();
+
+  const prune = (byLabel: Map<string, Map<number, number>>, nowSecond: number) => {
+    byLabel.forEach((seconds, key) => {
+      seconds.forEach((_, second) => {
+        if (second <= nowSecond - windowSeconds) seconds.delete(second);
+      });
+      if (seconds.size === 0) byLabel.delete(key);
+    });
+  };
+
+  register({
+    name,
+    help,
+    type: 'gauge',
+    render: () => {
+      const nowSecond = Math.floor(Date.now() / 1000);
+      prune(buckets, nowSecond);
+      return Array.from(buckets, ([key, seconds]) => {
+        let total = 0;
+        seconds.forEach(count => {
+          total += count;
+        });
+        return `${name}${key} ${formatValue(total / windowSeconds)}`;
+      });
+    },
+  });
+
+  return {
+    mark: (labels, count = 1) => {
+      const key = labelKey(labels);
+      const second = Math.floor(Date.now() / 1000);
+      let seconds = buckets.get(key);
+      if (!seconds) {
+        seconds = new Map();
+        buckets.set(key, seconds);
+      }
+      seconds.set(second, (seconds.get(second) ?? 0) + count);
+      if (seconds.size > windowSeconds * 2) prune(buckets, second);
+    },
+  };
+}
+
+/**
+ * Run a callback before every render (e.g. to refresh gauges)
+ */
+export function registerMetricsCollector(collect: () => void): () => void {
+  collectors.add(collect);
+  return () => {
+    collectors.delete(collect);
+  };
+}
+
+// =====================
+// Exposition
+// =====================
+export const METRICS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+export function renderMetrics(): string {
+  collectors.forEach((collect) => {
+    try {
+      collect();
+    } catch (error) {
+      console.error('[Metrics] Error in collector:', error);
+    }
+  });
+
+  const lines: string[] = [];
+  metrics.forEach((metric) => {
+    lines.push(`# HELP ${metric.name} ${metric.help}`);
+    lines.push(`# TYPE ${metric.name} ${metric.type}`);
+    lines.push(...metric.render());
+  });
+  return `${lines.join('\n')}\n`;
+}
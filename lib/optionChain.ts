@@ -0,0 +1,426 @@
+/**
+ * Live option chains for NSE_FNO underlyings
+ *
+ * A chain is built per (underlying, expiry) from the instrument master.
+ * Only ATM ± N strikes are subscribed; the window is re-centred as the
+ * underlying moves. Chain legs are subscribed in Quote mode (LTP + OI)
+ * through the runtime watchlist without being persisted, and released
+ * again when nobody has requested the chain for a while.
+ */
+import {
+  addInstruments,
+  getSubscriptions,
+  getTickData,
+  getTickExtras,
+  removeInstruments,
+  type TickData,
+} from './dhanSocket';
+import {
+  getInstrumentBySecurityId,
+  getInstrumentsByUnderlying,
+  type MasterInstrument,
+} from './instrumentMaster';
+import type { DhanInstrument } from '../stockCodes';
+
+// =====================
+// Constants
+// =====================
+const DEFAULT_STRIKES_AROUND_ATM = 10;
+const MAX_STRIKES_AROUND_ATM = 40;
+const RECENTER_INTERVAL_MS = 5000;
+const CHAIN_IDLE_TIMEOUT_MS = 10 * 60 * 1000;
+
+// =====================
+// Types
+// =====================
+export interface OptionLeg {
+  securityId: string;
+  tradingSymbol: string;
+  lotSize: number;
+  subscribed: boolean;
+  ltp: number | null;
+  openInterest: number | null;
+  oiChange: number | null;
+  volume: number | null;
+  updatedAt: number | null;
+}
+
+export interface OptionChainRow {
+  strike: number;
+  ce: OptionLeg | null;
+  pe: OptionLeg | null;
+}
+
+export interface OptionChainSnapshot {
+  underlying: string;
+  expiry: string;
+  expiries: string[];
+  spot: number | null;
+  atmStrike: number | null;
+  strikesAroundAtm: number;
+  rows: OptionChainRow[];
+}
+
+interface StrikeContracts {
+  strike: number;
+  ce: MasterInstrument | null;
+  pe: MasterInstrument | null;
+}
+
+interface OptionChain {
+  key: string;
+  underlying: string;
+  expiry: string;
+  expiries: string[];
+  underlyingInstrument: DhanInstrument | null;
+  strikes: StrikeContracts[]; // sorted by strike
+  strikesAroundAtm: number;
+  atmStrike: number | null;
+  windowIds: Set<string>; // security IDs subscribed for the current window
+  lastRequestedAt: number;
+}
+
+// =====================
+// State
+// =====================
+const chains = new Map<string, OptionChain>();
+
+// Security IDs subscribed by chains -> number of chains using them
+// (instruments already on the watchlist are never counted or released)
+const chainRefCounts = new Map<string, number>();
+
+let recenterTimer: NodeJS.Timeout | null = null;
+
+// =====================
+// Subscription Ref-counting
+// =====================
+function acquire(instruments: DhanInstrument[]) {
+  const active = new Set(getSubscriptions().map(sub => sub.securityId));
+  const toAdd = instruments.filter(
+    inst => !active.has(inst.securityId) || chainRefCounts.has(inst.securityId)
+  );
+
+  for (const inst of toAdd) {
+    chainRefCounts.set(inst.securityId, (chainRefCounts.get(inst.securityId) ?? 0) + 1);
+  }
+
+  const newlyActive = toAdd.filter(inst => !active.has(inst.securityId));
+  if (newlyActive.length > 0) {
+    addInstruments(newlyActive, { persist: false });
+  }
+}
+
+function release(securityIds: string[]) {
+  const toRemove: string[] = [];
+
+  for (const securityId of securityIds) {
+    const count = chainRefCounts.get(securityId);
+    if (count === undefined) continue;
+
+    if (count <= 1) {
+      chainRefCounts.delete(securityId);
+      toRemove.push(securityId);
+    } else {
+      chainRefCounts.set(securityId, count - 1);
+    }
+  }
+
+  if (toRemove.length > 0) {
+    removeInstruments(toRemove, { persist: false });
+  }
+}
+
+// =====================
+// Chain Building
+// =====================
+function chainKey(underlying: string, expiry: string) {
+  return `${underlying}:${expiry}`;
+}
+
+/**
+ * Latest trade tick merged over the OI / Prev Close packet values, which
+ * can arrive before a strike's first trade
+ */
+function latestTick(securityId: string): Partial<TickData> | undefined {
+  const tick = getTickData(Number(securityId)) as TickData | undefined;
+  const extras = getTickExtras(Number(securityId));
+  return tick || extras ? { ...extras, ...tick } : undefined;
+}
+
+function todayIST(): string {
+  return new Date(Date.now() + 330 * 60 * 1000).toISOString().slice(0, 10);
+}
+
+function toDhanInstrument(inst: MasterInstrument, mode: DhanInstrument['mode']): DhanInstrument {
+  return {
+    symbol: inst.tradingSymbol,
+    exchange: inst.exchangeSegment as DhanInstrument['exchange'],
+    securityId: inst.securityId,
+    mode,
+  };
+}
+
+async function resolveUnderlyingInstrument(
+  options: MasterInstrument[]
+): Promise<DhanInstrument | null> {
+  const underlyingId = options.find(inst => inst.underlyingSecurityId)?.underlyingSecurityId;
+  if (!underlyingId) return null;
+
+  // Index options point at IDX_I, stock options at NSE_EQ
+  const underlying =
+    (await getInstrumentBySecurityId(underlyingId, 'IDX_I')) ??
+    (await getInstrumentBySecurityId(underlyingId, 'NSE_EQ'));
+  if (!underlying) return null;
+
+  return toDhanInstrument(underlying, 'ticker');
+}
+
+async function buildChain(
+  underlying: string,
+  expiry: string | undefined,
+  strikesAroundAtm: number
+): Promise<OptionChain> {
+  const options = (
+    await getInstrumentsByUnderlying(underlying, { exchangeSegment: 'NSE_FNO' })
+  ).filter(inst => inst.optionType && inst.strikePrice !== null && inst.expiryDate);
+
+  if (options.length === 0) {
+    throw new Error(`No NSE_FNO options found for underlying ${underlying}`);
+  }
+
+  const today = todayIST();
+  const expiries = Array.from(new Set(options.map(inst => inst.expiryDate!)))
+    .filter(date => date >= today)
+    .sort();
+
+  const selectedExpiry = expiry ?? expiries[0];
+  if (!selectedExpiry || !expiries.includes(selectedExpiry)) {
+    throw new Error(
+      `Unknown expiry ${expiry ?? '(none)'} for ${underlying}; available: ${expiries.join(', ')}`
+    );
+  }
+
+  const byStrike = new Map<number, StrikeContracts>();
+  for (const inst of options) {
+    if (inst.expiryDate !== selectedExpiry) continue;
+
+    const strike = inst.strikePrice!;
+    const row = byStrike.get(strike) ?? { strike, ce: null, pe: null };
+    if (inst.optionType === 'CE') row.ce = inst;
+    if (inst.optionType === 'PE') row.pe = inst;
+    byStrike.set(strike, row);
+  }
+
+  const underlyingInstrument = await resolveUnderlyingInstrument(options);
+  if (underlyingInstrument) {
+    acquire([underlyingInstrument]);
+  }
+
+  return {
+    key: chainKey(underlying, selectedExpiry),
+    underlying,
+    expiry: selectedExpiry,
+    expiries,
+    underlyingInstrument,
+    strikes: Array.from(byStrike.values()).sort((a, b) => a.strike - b.strike),
+    strikesAroundAtm,
+    atmStrike: null,
+    windowIds: new Set(),
+    lastRequestedAt: Date.now(),
+  };
+}
+
+// =====================
+// ATM Window
+// =====================
+function spotPrice(chain: OptionChain): number | null {
+  if (!chain.underlyingInstrument) return null;
+  return latestTick(chain.underlyingInstrument.securityId)?.price ?? null;
+}
+
+function findAtmStrike(chain: OptionChain, spot: number | null): number | null {
+  if (chain.strikes.length === 0) return null;
+  // Without a spot yet, start from the middle of the chain
+  if (spot === null) return chain.strikes[Math.floor(chain.strikes.length / 2)].strike;
+
+  let best = chain.strikes[0].strike;
+  for (const { strike } of chain.strikes) {
+    if (Math.abs(strike - spot) < Math.abs(best - spot)) best = strike;
+  }
+  return best;
+}
+
+function windowRows(chain: OptionChain): StrikeContracts[] {
+  const atmIndex = chain.strikes.findIndex(row => row.strike === chain.atmStrike);
+  if (atmIndex === -1) return [];
+
+  return chain.strikes.slice(
+    Math.max(0, atmIndex - chain.strikesAroundAtm),
+    atmIndex + chain.strikesAroundAtm + 1
+  );
+}
+
+/**
+ * Move the subscribed strike window to the current ATM strike
+ * Only the difference between the old and new windows is (un)subscribed
+ */
+function recenter(chain: OptionChain) {
+  const atmStrike = findAtmStrike(chain, spotPrice(chain));
+  if (atmStrike === chain.atmStrike && chain.windowIds.size > 0) return;
+
+  const previousAtm = chain.atmStrike;
+  chain.atmStrike = atmStrike;
+
+  const nextIds = new Set<string>();
+  const legs: DhanInstrument[] = [];
+  for (const row of windowRows(chain)) {
+    for (const leg of [row.ce, row.pe]) {
+      if (!leg) continue;
+      nextIds.add(leg.securityId);
+      if (!chain.windowIds.has(leg.securityId)) {
+        legs.push(toDhanInstrument(leg, 'quote'));
+      }
+    }
+  }
+
+  const leaving = Array.from(chain.windowIds).filter(id => !nextIds.has(id));
+
+  acquire(legs);
+  release(leaving);
+  chain.windowIds = nextIds;
+
+  console.log(
+    `[OptionChain] ${chain.key} ATM ${previousAtm ?? '-'} -> ${atmStrike} (+${legs.length} / -${leaving.length} legs)`
+  );
+}
+
+function disposeChain(chain: OptionChain) {
+  release(Array.from(chain.windowIds));
+  if (chain.underlyingInstrument) {
+    release([chain.underlyingInstrument.securityId]);
+  }
+  chains.delete(chain.key);
+  console.log(`[OptionChain] Released idle chain ${chain.key}`);
+}
+
+function ensureRecenterTimer() {
+  if (recenterTimer) return;
+
+  recenterTimer = setInterval(() => {
+    const now = Date.now();
+    chains.forEach((chain) => {
+      if (now - chain.lastRequestedAt > CHAIN_IDLE_TIMEOUT_MS) {
+        disposeChain(chain);
+      } else {
+        recenter(chain);
+      }
+    });
+
+    if (chains.size === 0 && recenterTimer) {
+      clearInterval(recenterTimer);
+      recenterTimer = null;
+    }
+  }, RECENTER_INTERVAL_MS);
+  // Don't keep the process alive just to re-centre chains
+  recenterTimer.unref?.();
+}
+
+// =====================
+// Snapshot
+// =====================
+function legSnapshot(inst: MasterInstrument | null, windowIds: Set<string>): OptionLeg | null {
+  if (!inst) return null;
+
+  const tick = latestTick(inst.securityId);
+  const openInterest = tick?.openInterest ?? null;
+  const prevOpenInterest = tick?.prevOpenInterest ?? null;
+
+  return {
+    securityId: inst.securityId,
+    tradingSymbol: inst.tradingSymbol,
+    lotSize: inst.lotSize,
+    subscribed: windowIds.has(inst.securityId),
+    ltp: tick?.price ?? null,
+    openInterest,
+    oiChange:
+      openInterest !== null && prevOpenInterest !== null ? openInterest - prevOpenInterest : null,
+    volume: tick?.volume ?? null,
+    updatedAt: tick?.timestamp ?? null,
+  };
+}
+
+function snapshot(chain: OptionChain): OptionChainSnapshot {
+  return {
+    underlying: chain.underlying,
+    expiry: chain.expiry,
+    expiries: chain.expiries,
+    spot: spotPrice(chain),
+    atmStrike: chain.atmStrike,
+    strikesAroundAtm: chain.strikesAroundAtm,
+    rows: windowRows(chain).map(row => ({
+      strike: row.strike,
+      ce: legSnapshot(row.ce, chain.windowIds),
+      pe: legSnapshot(row.pe, chain.windowIds),
+    })),
+  };
+}
+
+// =====================
+// Public API
+// =====================
+
+/**
+ * Get (building and subscribing on first use) the live option chain
+ * @param underlying - Underlying symbol, e.g. "NIFTY"
+ * @param expiry - YYYY-MM-DD; defaults to the nearest expiry
+ * @param strikesAroundAtm - Strikes either side of ATM to keep subscribed
+ */
+export async function getOptionChain(
+  underlying: string,
+  expiry?: string,
+  strikesAroundAtm: number = DEFAULT_STRIKES_AROUND_ATM
+): Promise<OptionChainSnapshot> {
+  const normalized = underlying.toUpperCase();
+  const window = Math.max(1, Math.min(Math.floor(strikesAroundAtm), MAX_STRIKES_AROUND_ATM));
+
+  let chain = expiry
+    ? chains.get(chainKey(normalized, expiry))
+    : Array.from(chains.values()).find(
+        existing => existing.underlying === normalized && existing.expiry === existing.expiries[0]
+      );
+  if (!chain) {
+    const built = await buildChain(normalized, expiry, window);
+    // Another request may have built the same chain meanwhile
+    chain = chains.get(built.key);
+    if (chain) {
+      if (built.underlyingInstrument) release([built.underlyingInstrument.securityId]);
+    } else {
+      chain = built;
+      chains.set(chain.key, chain);
+      console.log(
+        `[OptionChain] Built ${chain.key}: ${chain.strikes.length} strikes, ATM ± ${window}`
+      );
+    }
+  }
+
+  chain.lastRequestedAt = Date.now();
+  if (chain.strikesAroundAtm !== window) {
+    chain.strikesAroundAtm = window;
+    chain.atmStrike = null; // force the window to be rebuilt
+  }
+
+  recenter(chain);
+  ensureRecenterTimer();
+
+  return snapshot(chain);
+}
+
+export function getActiveOptionChains() {
+  return Array.from(chains.values()).map(chain => ({
+    underlying: chain.underlying,
+    expiry: chain.expiry,
+    atmStrike: chain.atmStrike,
+    strikesAroundAtm: chain.strikesAroundAtm,
+    subscribedLegs: chain.windowIds.size,
+  }));
+}
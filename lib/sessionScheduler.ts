@@ -0,0 +1,166 @@
+/**
+ * Session-aware connection scheduler
+ *
+ * Keeps the Dhan feed connected only around trading sessions of the
+ * segments being watched: the window opens SESSION_CONNECT_LEAD_MINUTES
+ * before a session starts and closes SESSION_DISCONNECT_GRACE_MINUTES after
+ * it ends. Short gaps between sessions (e.g. pre-open -> normal) stay inside
+ * one window.
+ *
+ * The scheduler only decides *when*; dhanSocket.ts supplies the connect and
+ * disconnect callbacks.
+ */
+import {
+  getNextSessionStart,
+  getSegmentStatus,
+  isSegmentOpen,
+  type SegmentStatus,
+} from './marketCalendar';
+
+// =====================
+// Constants
+// =====================
+const MINUTE_MS = 60 * 1000;
+const CONNECT_LEAD_MS = (Number(process.env.SESSION_CONNECT_LEAD_MINUTES) || 10) * MINUTE_MS;
+const DISCONNECT_GRACE_MS = (Number(process.env.SESSION_DISCONNECT_GRACE_MINUTES) || 5) * MINUTE_MS;
+const CHECK_INTERVAL_MS = 30 * 1000;
+
+// =====================
+// Types
+// =====================
+export interface SessionSchedulerOptions {
+  // Segments currently being watched
+  segments: () => string[];
+  onWindowOpen: () => void;
+  onWindowClose: () => void;
+}
+
+export interface SessionSchedulerStatus {
+  active: boolean;
+  inWindow: boolean;
+  nextWindowOpen: string | null;
+  lastTransition: { type: 'open' | 'close'; at: string } | null;
+  segments: SegmentStatus[];
+}
+
+// =====================
+// State
+// =====================
+let schedulerOptions: SessionSchedulerOptions | null = null;
+let checkTimer: NodeJS.Timeout | null = null;
+let inWindow = false;
+let lastTransition: SessionSchedulerStatus['lastTransition'] = null;
+
+// =====================
+// Window Logic
+// =====================
+
+/**
+ * True when any segment is open now, opens within the lead time, or closed
+ * less than the grace period ago
+ */
+export function isWithinTradingWindow(segments: string[], at: Date = new Date()): boolean {
+  return segments.some(
+    segment =>
+      isSegmentOpen(segment, at) ||
+      isSegmentOpen(segment, new Date(at.getTime() + CONNECT_LEAD_MS)) ||
+      isSegmentOpen(segment, new Date(at.getTime() - DISCONNECT_GRACE_MS))
+  );
+}
+
+function nextWindowOpen(segments: string[], from: Date): Date | null {
+  const starts = segments
+    .map(segment => getNextSessionStart(segment, from)?.start.getTime())
+    .filter((time): time is number => time !== undefined);
+  if (starts.length === 0) return null;
+  return new Date(Math.min(...starts) - CONNECT_LEAD_MS);
+}
+
+function fire(callback: () => void, type: 'open' | 'close') {
+  lastTransition = { type, at: new Date().toISOString() };
+  try {
+    callback();
+  } catch (error) {
+    console.error(`[SessionScheduler] ❌ Error in window ${type} handler:`, error);
+  }
+}
+
+function check() {
+  if (!schedulerOptions) return;
+
+  const now = new Date();
+  const segments = schedulerOptions.segments();
+  const open = isWithinTradingWindow(segments, now);
+  if (open === inWindow) return;
+
+  inWindow = open;
+  if (open) {
+    console.log(`[SessionScheduler] Trading window open for ${segments.join(', ')}`);
+    fire(schedulerOptions.onWindowOpen, 'open');
+  } else {
+    const next = nextWindowOpen(segments, now);
+    console.log(
+      `[SessionScheduler] Trading window closed, next connect at ${next?.toISOString() ?? 'unknown'}`
+    );
+    fire(schedulerOptions.onWindowClose, 'close');
+  }
+}
+
+// =====================
+// Public API
+// =====================
+
+/**
+ * Start (or re-arm) the scheduler
+ * Calls onWindowOpen immediately when already inside a trading window
+ */
+export function startSessionScheduler(options: SessionSchedulerOptions) {
+  schedulerOptions = options;
+
+  if (!checkTimer) {
+    checkTimer = setInterval(check, CHECK_INTERVAL_MS);
+    checkTimer.unref?.();
+  }
+
+  const segments = options.segments();
+  inWindow = isWithinTradingWindow(segments);
+  if (inWindow) {
+    fire(options.onWindowOpen, 'open');
+  } else {
+    const next = nextWindowOpen(segments, new Date());
+    console.log(
+      `[SessionScheduler] Outside trading window, next connect at ${next?.toISOString() ?? 'unknown'}`
+    );
+  }
+}
+
+export function stopSessionScheduler() {
+  if (checkTimer) clearInterval(checkTimer);
+  checkTimer = null;
+  schedulerOptions = null;
+  inWindow = false;
+}
+
+export function isSessionSchedulerActive() {
+  return schedulerOptions !== null;
+}
+
+/**
+ * Whether the scheduler currently wants the feed connected
+ * Always true when the scheduler is not running
+ */
+export function isTradingWindowOpen() {
+  return schedulerOptions === null || inWindow;
+}
+
+export function getSessionSchedulerStatus(): SessionSchedulerStatus {
+  const segments = schedulerOptions?.segments() ?? [];
+  const now = new Date();
+  return {
+    active: schedulerOptions !== null,
+    inWindow,
+    nextWindowOpen: inWindow ? null : nextWindowOpen(segments, now)?.toISOString() ?? null,
+    lastTransition,
+    segments: segments.map(segment => getSegmentStatus(segment, now)),
+  };
+}
@@ -0,0 +1,242 @@
+/**
+ * Raw feed recorder and deterministic replay
+ *
+ * Recording file format (all little-endian):
+ * - 8-byte magic "DHANREC1"
+ * - Repeated records:
+ *   - Bytes 0-7: receive time (Unix ms, float64)
+ *   - Bytes 8-11: frame length (uint32)
+ *   - Frame bytes exactly as received from the WebSocket
+ *
+ * Replay reads the records back in order and hands each frame to a
+ * callback (dhanSocket's handleMessage) at 1x, Nx or maximum speed.
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+
+// =====================
+// Constants
+// =====================
+const MAGIC = Buffer.from('DHANREC1', 'ascii');
+const RECORD_HEADER_SIZE = 12;
+const READ_CHUNK_SIZE = 64 * 1024;
+
+// Frames handed over per event-loop turn at max speed
+const MAX_SPEED_BATCH = 500;
+
+// =====================
+// Types
+// =====================
+export interface RecordedFrame {
+  receivedAt: number; // Unix ms
+  data: Buffer;
+}
+
+export type ReplaySpeed = number | 'max';
+
+export interface ReplayOptions {
+  speed: ReplaySpeed;
+  onFrame: (frame: RecordedFrame) => void;
+  onDone?: (stats: ReplayStats) => void;
+}
+
+export interface ReplayStats {
+  file: string;
+  frames: number;
+  startedAt: number;
+  finishedAt: number | null;
+  firstFrameAt: number | null;
+  lastFrameAt: number | null;
+  stopped: boolean;
+}
+
+export interface ReplayHandle {
+  stop: () => void;
+  stats: () => ReplayStats;
+}
+
+// =====================
+// Recording
+// =====================
+let recordStream: fs.WriteStream | null = null;
+let recordPath: string | null = null;
+let recordedFrames = 0;
+
+/**
+ * Start appending received frames to a recording file
+ * `{date}` in the path is replaced with the IST date (YYYY-MM-DD)
+ */
+export function startRecording(filePath: string) {
+  if (recordStream) return;
+
+  const istDate = new Date(Date.now() + 330 * 60 * 1000).toISOString().slice(0, 10);
+  recordPath = filePath.replace('{date}', istDate);
+  fs.mkdirSync(path.dirname(recordPath), { recursive: true });
+
+  const isNew = !fs.existsSync(recordPath) || fs.statSync(recordPath).size === 0;
+  recordStream = fs.createWriteStream(recordPath, { flags: 'a' });
+  recordStream.on('error', (error) => {
+    console.error('[TickRecorder] ❌ Write error, recording stopped:', error);
+    stopRecording();
+  });
+  if (isNew) recordStream.write(MAGIC);
+
+  recordedFrames = 0;
+  console.log(`[TickRecorder] Recording raw frames to ${recordPath}`);
+}
+
+export function recordFrame(data: Buffer, receivedAt: number = Date.now()) {
+  if (!recordStream) return;
+
+  const header = Buffer.alloc(RECORD_HEADER_SIZE);
+  header.writeDoubleLE(receivedAt, 0);
+  header.writeUInt32LE(data.length, 8);
+  recordStream.write(header);
+  recordStream.write(data);
+  recordedFrames++;
+}
+
+export function stopRecording() {
+  if (!recordStream) return;
+
+  recordStream.end();
+  console.log(`[TickRecorder] Stopped recording (${recordedFrames} frames to ${recordPath})`);
+  recordStream = null;
+  recordPath = null;
+}
+
+export function getRecorderStatus() {
+  return {
+    recording: recordStream !== null,
+    file: recordPath,
+    frames: recordedFrames,
+  };
+}
+
+// =====================
+// Reading
+// =====================
+
+/**
+ * Read a recording file frame by frame without loading it into memory
+ */
+export async function* readRecording(filePath: string): AsyncGenerator<RecordedFrame> {
+  const handle = await fs.promises.open(filePath, 'r');
+
+  try {
+    let buffer = Buffer.alloc(0);
+    let position = 0;
+    let eof = false;
+
+    const fill = async (needed: number) => {
+      while (!eof && buffer.length < needed) {
+        const chunk = Buffer.alloc(READ_CHUNK_SIZE);
+        const { bytesRead } = await handle.read(chunk, 0, READ_CHUNK_SIZE, position);
+        if (bytesRead === 0) {
+          eof = true;
+          break;
+        }
+        position += bytesRead;
+        buffer = Buffer.concat([buffer, chunk.subarray(0, bytesRead)]);
+      }
+      return buffer.length >= needed;
+    };
+
+    if (!(await fill(MAGIC.length)) || !buffer.subarray(0, MAGIC.length).equals(MAGIC)) {
+      throw new Error(`${filePath} is not a Dhan feed recording`);
+    }
+    buffer = buffer.subarray(MAGIC.length);
+
+    while (await fill(RECORD_HEADER_SIZE)) {
+      const receivedAt = buffer.readDoubleLE(0);
+      const length = buffer.readUInt32LE(8);
+
+      if (!(await fill(RECORD_HEADER_SIZE + length))) {
+        console.warn(`[TickRecorder] Truncated record at end of ${filePath}`);
+        break;
+      }
+
+      const data = Buffer.from(buffer.subarray(RECORD_HEADER_SIZE, RECORD_HEADER_SIZE + length));
+      buffer = buffer.subarray(RECORD_HEADER_SIZE + length);
+      yield { receivedAt, data };
+    }
+  } finally {
+    await handle.close();
+  }
+}
+
+// =====================
+// Replay
+// =====================
+export function parseReplaySpeed(value: string | undefined): ReplaySpeed {
+  if (!value || value === '1' || value === '1x') return 1;
+  if (value === 'max') return 'max';
+
+  const speed = Number(value.replace(/x$/i, ''));
+  if (!Number.isFinite(speed) || speed <= 0) {
+    throw new Error(`Invalid replay speed "${value}" (use 1, N, Nx or max)`);
+  }
+  return speed;
+}
+
+function sleep(ms: number) {
+  return new Promise<void>(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Replay a recording, preserving the recorded inter-frame gaps divided by speed
+ * Resolves immediately; progress is reported through the returned handle
+ */
+export function replayRecording(filePath: string, options: ReplayOptions): ReplayHandle {
+  const stats: ReplayStats = {
+    file: filePath,
+    frames: 0,
+    startedAt: Date.now(),
+    finishedAt: null,
+    firstFrameAt: null,
+    lastFrameAt: null,
+    stopped: false,
+  };
+
+  const run = async () => {
+    let previousAt: number | null = null;
+
+    for await (const frame of readRecording(filePath)) {
+      if (stats.stopped) break;
+
+      if (options.speed === 'max') {
+        if (stats.frames % MAX_SPEED_BATCH === 0) await new Promise(setImmediate);
+      } else if (previousAt !== null && frame.receivedAt > previousAt) {
+        await sleep((frame.receivedAt - previousAt) / options.speed);
+        if (stats.stopped) break;
+      }
+
+      previousAt = frame.receivedAt;
+      stats.firstFrameAt ??= frame.receivedAt;
+      stats.lastFrameAt = frame.receivedAt;
+      stats.frames++;
+      options.onFrame(frame);
+    }
+  };
+
+  console.log(`[TickRecorder] Replaying ${filePath} at ${options.speed === 'max' ? 'max' : `${options.speed}x`} speed`);
+
+  run()
+    .catch((error) => {
+      console.error('[TickRecorder] ❌ Replay failed:', error);
+    })
+    .finally(() => {
+      stats.finishedAt = Date.now();
+      console.log(
+        `[TickRecorder] Replay ${stats.stopped ? 'stopped' : 'finished'}: ${stats.frames} frames in ${stats.finishedAt - stats.startedAt}ms`
+      );
+      options.onDone?.(stats);
+    });
+
+  return {
+    stop: () => {
+      stats.stopped = true;
+    },
+    stats: () => ({ ...stats }),
+  };
+}
@@ -0,0 +1,302 @@
+/**
+ * Pluggable tick sinks
+ *
+ * Every tick handled in dhanSocket.ts is dispatched to all registered sinks.
+ * Sinks run independently: a sink that throws, rejects or stalls only
+ * affects its own health and error counts, never the other sinks or the
+ * tick path.
+ *
+ * Configured at startup from TICK_SINKS (comma separated, default "firestore"):
+ * - firestore: latest price per symbol in stocks/{symbol}
+ * - jsonl: one JSON line per tick (TICK_SINK_JSONL_FILE, {date} = IST date)
+ * - memory: bounded in-process buffer, for tests and debugging
+ * - stdout: one JSON line per tick on stdout
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+import type { TickData } from './dhanSocket';
+import { getFirestoreWriterStats, saveStockPrice } from './firebaseServer';
+
+// =====================
+// Constants
+// =====================
+const DEFAULT_SINKS = 'firestore';
+const DEFAULT_JSONL_FILE = 'data/ticks-{date}.jsonl';
+const MEMORY_SINK_LIMIT = 10000;
+
+// Writes allowed in flight per sink before new ticks are dropped for it
+const MAX_IN_FLIGHT = 1000;
+
+// Consecutive failures before a sink is reported unhealthy
+const UNHEALTHY_AFTER_ERRORS = 5;
+
+// =====================
+// Types
+// =====================
+export interface TickSink {
+  readonly name: string;
+  write(tick: TickData): void | Promise<void>;
+  close?(): Promise<void>;
+  // Sink-specific details reported alongside the registry's counters
+  details?(): Record<string, unknown>;
+}
+
+export interface TickSinkHealth {
+  name: string;
+  healthy: boolean;
+  writes: number;
+  errors: number;
+  dropped: number;
+  inFlight: number;
+  consecutiveErrors: number;
+  lastError: string | null;
+  lastErrorAt: number | null;
+  lastWriteAt: number | null;
+  details?: Record<string, unknown>;
+}
+
+interface RegisteredSink {
+  sink: TickSink;
+  health: TickSinkHealth;
+}
+
+// =====================
+// Registry
+// =====================
+const sinks = new Map<string, RegisteredSink>();
+
+function recordSuccess(entry: RegisteredSink) {
+  entry.health.writes++;
+  entry.health.lastWriteAt = Date.now();
+  if (!entry.health.healthy) {
+    console.log(`[TickSinks] ✅ Sink "${entry.sink.name}" recovered`);
+  }
+  entry.health.consecutiveErrors = 0;
+  entry.health.healthy = true;
+}
+
+function recordFailure(entry: RegisteredSink, error: unknown) {
+  const { health } = entry;
+  health.errors++;
+  health.consecutiveErrors++;
+  health.lastError = error instanceof Error ? error.message : String(error);
+  health.lastErrorAt = Date.now();
+
+  if (health.healthy && health.consecutiveErrors >= UNHEALTHY_AFTER_ERRORS) {
+    health.healthy = false;
+    console.error(
+      `[TickSinks] ❌ Sink "${entry.sink.name}" unhealthy after ${health.consecutiveErrors} errors: ${health.lastError}`
+    );
+  }
+}
+
+export function registerTickSink(sink: TickSink) {
+  if (sinks.has(sink.name)) {
+    throw new Error(`Tick sink "${sink.name}" is already registered`);
+  }
+
+  sinks.set(sink.name, {
+    sink,
+    health: {
+      name: sink.name,
+      healthy: true,
+      writes: 0,
+      errors: 0,
+      dropped: 0,
+      inFlight: 0,
+      consecutiveErrors: 0,
+      lastError: null,
+      lastErrorAt: null,
+      lastWriteAt: null,
+    },
+  });
+  console.log(`[TickSinks] Registered sink "${sink.name}"`);
+}
+
+export async function unregisterTickSink(name: string) {
+  const entry = sinks.get(name);
+  if (!entry) return;
+
+  sinks.delete(name);
+  try {
+    await entry.sink.close?.();
+  } catch (error) {
+    console.error(`[TickSinks] Error closing sink "${name}":`, error);
+  }
+}
+
+/**
+ * Hand a tick to every sink without waiting on any of them
+ */
+export function dispatchTick(tick: TickData) {
+  sinks.forEach((entry) => {
+    if (entry.health.inFlight >= MAX_IN_FLIGHT) {
+      entry.health.dropped++;
+      return;
+    }
+
+    let result: void | Promise<void>;
+    try {
+      result = entry.sink.write(tick);
+    } catch (error) {
+      recordFailure(entry, error);
+      return;
+    }
+
+    if (!result) {
+      recordSuccess(entry);
+      return;
+    }
+
+    entry.health.inFlight++;
+    result.then(
+      () => {
+        entry.health.inFlight--;
+        recordSuccess(entry);
+      },
+      (error) => {
+        entry.health.inFlight--;
+        recordFailure(entry, error);
+      }
+    );
+  });
+}
+
+export function getTickSinkHealth(): TickSinkHealth[] {
+  return Array.from(sinks.values()).map(entry => ({
+    ...entry.health,
+    ...(entry.sink.details ? { details: entry.sink.details() } : {}),
+  }));
+}
+
+export function getTickSink<T extends TickSink>(name: string): T | undefined {
+  return sinks.get(name)?.sink as T | undefined;
+}
+
+// =====================
+// Implementations
+// =====================
+export function createFirestoreSink(): TickSink {
+  return {
+    name: 'firestore',
+    // Queued into the coalescing write-behind buffer; commits happen per flush
+    write: tick =>
+      saveStockPrice(tick.symbol, tick.price, tick.securityId, tick.timestamp, {
+        prevClose: tick.prevClose,
+        prevCloseSource: tick.prevCloseSource,
+        change: tick.change,
+        changePercent: tick.changePercent,
+        dayOpen: tick.dayOpen,
+        dayOpenSource: tick.dayOpenSource,
+        dayHigh: tick.dayHigh,
+        dayLow: tick.dayLow,
+      }),
+    details: () => ({ ...getFirestoreWriterStats() }),
+  };
+}
+
+function istDate(): string {
+  return new Date(Date.now() + 330 * 60 * 1000).toISOString().slice(0, 10);
+}
+
+/**
+ * Append ticks as JSON lines; a new file is started when the IST date in
+ * the path changes
+ */
+export function createJsonlSink(filePath: string = DEFAULT_JSONL_FILE): TickSink {
+  let currentFile: string | null = null;
+  let stream: fs.WriteStream | null = null;
+  let streamError: Error | null = null;
+
+  const open = (resolved: string) => {
+    stream?.end();
+    fs.mkdirSync(path.dirname(resolved), { recursive: true });
+    stream = fs.createWriteStream(resolved, { flags: 'a' });
+    stream.on('error', (error) => {
+      streamError = error;
+    });
+    currentFile = resolved;
+    streamError = null;
+  };
+
+  return {
+    name: 'jsonl',
+    write: (tick) => {
+      const resolved = filePath.replace('{date}', istDate());
+      if (resolved !== currentFile) open(resolved);
+      if (streamError) throw streamError;
+      stream!.write(`${JSON.stringify(tick)}\n`);
+    },
+    close: () =>
+      new Promise<void>((resolve) => {
+        if (stream) {
+          stream.end(resolve);
+        } else {
+          resolve();
+        }
+      }),
+  };
+}
+
+export interface MemorySink extends TickSink {
+  ticks: () => TickData[];
+  clear: () => void;
+}
+
+export function createMemorySink(limit: number = MEMORY_SINK_LIMIT): MemorySink {
+  const buffer: TickData[] = [];
+  return {
+    name: 'memory',
+    write: (tick) => {
+      buffer.push(tick);
+      if (buffer.length > limit) buffer.splice(0, buffer.length - limit);
+    },
+    ticks: () => [...buffer],
+    clear: () => {
+      buffer.length = 0;
+    },
+  };
+}
+
+export function createStdoutSink(): TickSink {
+  return {
+    name: 'stdout',
+    write: (tick) => {
+      process.stdout.write(`${JSON.stringify(tick)}\n`);
+    },
+  };
+}
+
+const SINK_FACTORIES: Record<string, () => TickSink> = {
+  firestore: createFirestoreSink,
+  jsonl: () => createJsonlSink(process.env.TICK_SINK_JSONL_FILE),
+  memory: () => createMemorySink(),
+  stdout: createStdoutSink,
+};
+
+/**
+ * Register the sinks named in TICK_SINKS (or the given list)
+ * Unknown names are logged and skipped
+ */
+export function configureTickSinks(names: string = process.env.TICK_SINKS ?? DEFAULT_SINKS) {
+  for (const name of names.split(',').map(n => n.trim()).filter(Boolean)) {
+    if (sinks.has(name)) continue;
+
+    // Own keys only: "constructor" and friends resolve on every object
+    const factory = Object.prototype.hasOwnProperty.call(SINK_FACTORIES, name)
+      ? SINK_FACTORIES[name]
+      : undefined;
+    if (!factory) {
+      console.error(
+        `[TickSinks] Unknown sink "${name}" (available: ${Object.keys(SINK_FACTORIES).join(', ')})`
+      );
+      continue;
+    }
+
+    try {
+      registerTickSink(factory());
+    } catch (error) {
+      console.error(`[TickSinks] ❌ Failed to create sink "${name}":`, error);
+    }
+  }
+}
@@ -0,0 +1,426 @@
+/**
+ * SSE fan-out for /api/ticks
+ *
+ * Every event published by dhanSocket.ts gets a sequence id and is kept in
+ * a short replay buffer. Listeners (wsFanout.ts) see every event too.
+ * Each SSE client can:
+ * - filter by symbols, security IDs and/or segments
+ * - throttle ticks to at most one per security per N ms (latest value wins)
+ * - resume after a reconnect: EventSource sends the last `id:` it saw as
+ *   Last-Event-ID, and the missed events are replayed from the buffer
+ *   instead of sending the full snapshot again
+ *
+ * Backpressure: a stream's desiredSize goes negative as events queue up
+ * behind a slow connection. Past SSE_SLOW_CLIENT_QUEUE queued events the
+ * client only gets the latest tick per security until its queue drains,
+ * and it is disconnected if it stays behind for SSE_SLOW_CLIENT_MAX_LAG_MS.
+ *
+ * Event ids are "<bootId>:<seq>", so an id from a previous process (or one
+ * that has fallen out of the buffer) falls back to the snapshot.
+ */
+import type { TickData } from './dhanSocket';
+
+// =====================
+// Constants
+// =====================
+const REPLAY_BUFFER_SIZE = Number(process.env.SSE_REPLAY_BUFFER_SIZE) || 2000;
+const BOOT_ID = Date.now().toString(36);
+
+// Events queued beyond the stream's high-water mark before ticks are conflated
+const SLOW_CLIENT_QUEUE = Number(process.env.SSE_SLOW_CLIENT_QUEUE) || 200;
+// A client still behind after this long is disconnected
+const SLOW_CLIENT_MAX_LAG_MS = Number(process.env.SSE_SLOW_CLIENT_MAX_LAG_MS) || 30 * 1000;
+const DRAIN_CHECK_INTERVAL_MS = 250;
+
+// =====================
+// Types
+// =====================
+
+// Instrument an event belongs to; events without one go to every client
+export interface StreamEventInstrument {
+  securityId: number;
+  symbol: string;
+  segment?: string;
+}
+
+export interface StreamEvent {
+  seq: number;
+  type: string;
+  data: unknown;
+  instrument: StreamEventInstrument | null;
+}
+
+export interface TickStreamFilter {
+  symbols?: Set<string>;
+  securityIds?: Set<number>;
+  segments?: Set<string>;
+}
+
+export interface TickStreamOptions {
+  filter?: TickStreamFilter;
+  // At most one tick per security per throttleMs (0 = every tick)
+  throttleMs?: number;
+  // Last-Event-ID from a reconnecting client
+  lastEventId?: string | null;
+}
+
+interface StreamClient {
+  id: string;
+  controller: ReadableStreamDefaultController;
+  filter: TickStreamFilter;
+  throttleMs: number;
+  lastSentAt: Map<number, number>;
+  // Latest throttled or conflated tick per security, waiting for its slot
+  pending: Map<number, StreamEvent>;
+  flushTimer: NodeJS.Timeout | null;
+  connectedAt: number;
+  sentEvents: number;
+  // Ticks replaced by a newer one before they were sent
+  conflatedTicks: number;
+  // Set while the client's queue is over SLOW_CLIENT_QUEUE
+  slowSince: number | null;
+  drainTimer: NodeJS.Timeout | null;
+}
+
+export interface StreamClientStats {
+  id: string;
+  connectedAt: number;
+  throttleMs: number;
+  filter: { symbols: number; securityIds: number; segments: number } | null;
+  sentEvents: number;
+  conflatedTicks: number;
+  pendingTicks: number;
+  queuedEvents: number;
+  slow: boolean;
+  behindForMs: number | null;
+}
+
+// =====================
+// State
+// =====================
+const replayBuffer: StreamEvent[] = [];
+const clients = new Map<string, StreamClient>();
+const listeners = new Set<(event: StreamEvent) => void>();
+let lastSeq = 0;
+
+const encoder = new TextEncoder();
+
+// =====================
+// Helpers
+// =====================
+function formatEventId(seq: number) {
+  return `${BOOT_ID}:${seq}`;
+}
+
+function parseEventId(eventId: string | null | undefined): number | null {
+  if (!eventId) return null;
+  const [bootId, seq] = eventId.split(':');
+  const parsed = Number(seq);
+  return bootId === BOOT_ID && Number.isInteger(parsed) ? parsed : null;
+}
+
+function encodeEvent(seq: number, type: string, data: unknown) {
+  return encoder.encode(`id: ${formatEventId(seq)}\ndata: ${JSON.stringify({ type, data })}\n\n`);
+}
+
+export function matchesFilter(filter: TickStreamFilter, instrument: StreamEventInstrument | null) {
+  if (!instrument) return true;
+
+  const { symbols, securityIds, segments } = filter;
+  if (symbols || securityIds) {
+    const selected =
+      (symbols?.has(instrument.symbol) ?? false) ||
+      (securityIds?.has(instrument.securityId) ?? false);
+    if (!selected) return false;
+  }
+  if (segments && (!instrument.segment || !segments.has(instrument.segment))) return false;
+  return true;
+}
+
+function removeClient(client: StreamClient) {
+  if (client.flushTimer) clearTimeout(client.flushTimer);
+  if (client.drainTimer) clearInterval(client.drainTimer);
+  client.flushTimer = null;
+  client.drainTimer = null;
+  clients.delete(client.id);
+}
+
+/**
+ * Events waiting in the stream's queue beyond its high-water mark
+ */
+function queuedEvents(client: StreamClient) {
+  return Math.max(0, -(client.controller.desiredSize ?? 0));
+}
+
+function send(client: StreamClient, bytes: Uint8Array): boolean {
+  try {
+    client.controller.enqueue(bytes);
+  } catch {
+    // Client disconnected
+    removeClient(client);
+    return false;
+  }
+
+  client.sentEvents++;
+  if (client.slowSince === null && queuedEvents(client) > SLOW_CLIENT_QUEUE) {
+    markSlow(client);
+  }
+  return true;
+}
+
+function markSlow(client: StreamClient) {
+  client.slowSince = Date.now();
+  client.drainTimer = setInterval(() => checkDrain(client), DRAIN_CHECK_INTERVAL_MS);
+  console.warn(
+    `[TickStream] Client ${client.id} is falling behind (${queuedEvents(client)} events queued) - conflating ticks`
+  );
+}
+
+/**
+ * While a client is slow: resume normal delivery once its queue has drained,
+ * or drop it once it has been behind for too long
+ */
+function checkDrain(client: StreamClient) {
+  const desiredSize = client.controller.desiredSize;
+  if (desiredSize === null) {
+    // Stream errored or closed underneath us
+    removeClient(client);
+    return;
+  }
+
+  if (desiredSize > 0) {
+    if (client.drainTimer) clearInterval(client.drainTimer);
+    client.drainTimer = null;
+    console.log(
+      `[TickStream] Client ${client.id} caught up after ${Date.now() - client.slowSince!}ms`
+    );
+    client.slowSince = null;
+    flushPending(client);
+    return;
+  }
+
+  const behindFor = Date.now() - client.slowSince!;
+  if (behindFor > SLOW_CLIENT_MAX_LAG_MS) {
+    console.warn(
+      `[TickStream] ❌ Disconnecting client ${client.id}: ${queuedEvents(client)} events queued for ${behindFor}ms`
+    );
+    removeClient(client);
+    try {
+      // error() rather than close(): discard the backlog instead of delivering it
+      client.controller.error(new Error('Slow consumer'));
+    } catch {
+      // Already closed
+    }
+  }
+}
+
+function flushPending(client: StreamClient) {
+  client.flushTimer = null;
+  // checkDrain flushes once the client catches up
+  if (client.slowSince !== null) return;
+
+  const now = Date.now();
+  let nextDue = Infinity;
+
+  for (const [securityId, event] of client.pending) {
+    if (client.slowSince !== null) return;
+    const due = (client.lastSentAt.get(securityId) ?? 0) + client.throttleMs;
+    if (due > now) {
+      nextDue = Math.min(nextDue, due);
+      continue;
+    }
+    client.pending.delete(securityId);
+    client.lastSentAt.set(securityId, now);
+    if (!send(client, encodeEvent(event.seq, event.type, event.data))) return;
+  }
+
+  if (nextDue !== Infinity) {
+    client.flushTimer = setTimeout(() => flushPending(client), nextDue - now);
+  }
+}
+
+/**
+ * Deliver one event to one client, applying its filter and throttle
+ * @param bytes - Pre-encoded event, shared between clients
+ */
+function deliver(client: StreamClient, event: StreamEvent, bytes: Uint8Array) {
+  if (!matchesFilter(client.filter, event.instrument)) return;
+
+  // Behind: keep only the latest tick per security until the queue drains
+  if (client.slowSince !== null && event.type === 'tick' && event.instrument) {
+    if (client.pending.has(event.instrument.securityId)) client.conflatedTicks++;
+    client.pending.set(event.instrument.securityId, event);
+    return;
+  }
+
+  if (client.throttleMs > 0 && event.type === 'tick' && event.instrument) {
+    const { securityId } = event.instrument;
+    const now = Date.now();
+    const lastSent = client.lastSentAt.get(securityId) ?? 0;
+
+    if (now - lastSent < client.throttleMs || client.pending.has(securityId)) {
+      if (client.pending.has(securityId)) client.conflatedTicks++;
+      client.pending.set(securityId, event);
+      if (!client.flushTimer) {
+        client.flushTimer = setTimeout(() => flushPending(client), lastSent + client.throttleMs - now);
+      }
+      return;
+    }
+    client.lastSentAt.set(securityId, now);
+  }
+
+  send(client, bytes);
+}
+
+// =====================
+// Public API
+// =====================
+
+/**
+ * Publish an event to every matching client and the replay buffer
+ */
+export function publishStreamEvent(
+  type: string,
+  data: unknown,
+  instrument: StreamEventInstrument | null = null
+) {
+  const event: StreamEvent = { seq: ++lastSeq, type, data, instrument };
+  replayBuffer.push(event);
+  if (replayBuffer.length > REPLAY_BUFFER_SIZE) {
+    replayBuffer.splice(0, replayBuffer.length - REPLAY_BUFFER_SIZE);
+  }
+
+  listeners.forEach((listener) => {
+    try {
+      listener(event);
+    } catch (error) {
+      console.error('[TickStream] Error in stream listener:', error);
+    }
+  });
+
+  if (clients.size === 0) return;
+  const bytes = encodeEvent(event.seq, type, data);
+  clients.forEach(client => deliver(client, event, bytes));
+}
+
+/**
+ * Receive every published event (e.g. the WebSocket fan-out)
+ */
+export function onStreamEvent(listener: (event: StreamEvent) => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Register an SSE client
+ * A resumable Last-Event-ID replays the missed events; otherwise the
+ * snapshot is sent as the `initial` event
+ * @param snapshot - Latest tick per security
+ * @returns Unsubscribe function
+ */
+export function addStreamClient(
+  controller: ReadableStreamDefaultController,
+  snapshot: () => TickData[],
+  options: TickStreamOptions = {}
+): () => void {
+  const client: StreamClient = {
+    id: Math.random().toString(36).substring(7),
+    controller,
+    filter: options.filter ?? {},
+    throttleMs: options.throttleMs ?? 0,
+    lastSentAt: new Map(),
+    pending: new Map(),
+    flushTimer: null,
+    connectedAt: Date.now(),
+    sentEvents: 0,
+    conflatedTicks: 0,
+    slowSince: null,
+    drainTimer: null,
+  };
+
+  const resumeFrom = parseEventId(options.lastEventId);
+  const oldest = replayBuffer[0]?.seq ?? lastSeq + 1;
+  const canResume = resumeFrom !== null && resumeFrom <= lastSeq && resumeFrom >= oldest - 1;
+
+  if (canResume) {
+    for (const event of replayBuffer) {
+      if (event.seq <= resumeFrom) continue;
+      if (!matchesFilter(client.filter, event.instrument)) continue;
+      if (!send(client, encodeEvent(event.seq, event.type, event.data))) return () => {};
+    }
+  } else {
+    const initialData = snapshot().filter(tick =>
+      matchesFilter(client.filter, {
+        securityId: tick.securityId,
+        symbol: tick.symbol,
+        segment: tick.exchangeSegment,
+      })
+    );
+    if (initialData.length > 0 && !send(client, encodeEvent(lastSeq, 'initial', initialData))) {
+      return () => {};
+    }
+  }
+
+  clients.set(client.id, client);
+  return () => removeClient(client);
+}
+
+export function getStreamClientCount() {
+  return clients.size;
+}
+
+/**
+ * Per-client delivery stats for diagnostics
+ */
+export function getStreamClientStats(now: number = Date.now()): StreamClientStats[] {
+  return Array.from(clients.values(), (client) => {
+    const { symbols, securityIds, segments } = client.filter;
+    const filtered = Boolean(symbols || securityIds || segments);
+    return {
+      id: client.id,
+      connectedAt: client.connectedAt,
+      throttleMs: client.throttleMs,
+      filter: filtered
+        ? {
+            symbols: symbols?.size ?? 0,
+            securityIds: securityIds?.size ?? 0,
+            segments: segments?.size ?? 0,
+          }
+        : null,
+      sentEvents: client.sentEvents,
+      conflatedTicks: client.conflatedTicks,
+      pendingTicks: client.pending.size,
+      queuedEvents: queuedEvents(client),
+      slow: client.slowSince !== null,
+      behindForMs: client.slowSince !== null ? now - client.slowSince : null,
+    };
+  });
+}
+
+/**
+ * Parse the comma-separated filter query parameters of /api/ticks
+ * (symbols, securityIds, segments); an empty filter matches everything
+ */
+export function parseTickStreamFilter(params: URLSearchParams): TickStreamFilter {
+  const list = (name: string) => {
+    const values = (params.get(name) ?? '')
+      .split(',')
+      .map(value => value.trim())
+      .filter(Boolean);
+    return values.length > 0 ? values : null;
+  };
+
+  const symbols = list('symbols');
+  const securityIds = list('securityIds')
+    ?.map(Number)
+    .filter(Number.isFinite);
+  const segments = list('segments');
+
+  return {
+    ...(symbols ? { symbols: new Set(symbols) } : {}),
+    ...(securityIds && securityIds.length > 0 ? { securityIds: new Set(securityIds) } : {}),
+    ...(segments ? { segments: new Set(segments) } : {}),
+  };
+}
@@ -0,0 +1,70 @@
+/**
+ * Persistence for the runtime watchlist
+ *
+ * Only the difference from STOCK_INSTRUMENTS is stored, so instruments
+ * added to stockCodes.ts in a later deploy are still picked up:
+ * - added: instruments subscribed through /api/subscriptions
+ * - removed: security IDs from STOCK_INSTRUMENTS that were unsubscribed
+ *
+ * Stored as a single Firestore document: config/watchlist
+ */
+import type { DhanInstrument } from '../stockCodes';
+import { getFirestoreServer } from './firebaseServer';
+
+export interface WatchlistState {
+  added: DhanInstrument[];
+  removed: string[];
+}
+
+const WATCHLIST_COLLECTION = 'config';
+const WATCHLIST_DOC = 'watchlist';
+
+/**
+ * Load the persisted watchlist diff
+ * Resolves to null when Firestore is unavailable or nothing is stored yet
+ */
+export async function loadWatchlist(): Promise<WatchlistState | null> {
+  try {
+    const db = getFirestoreServer();
+    if (!db) return null;
+
+    const snapshot = await db.collection(WATCHLIST_COLLECTION).doc(WATCHLIST_DOC).get();
+    if (!snapshot.exists) return null;
+
+    const data = snapshot.data() ?? {};
+    return {
+      added: Array.isArray(data.added) ? data.added : [],
+      removed: Array.isArray(data.removed) ? data.removed : [],
+    };
+  } catch (error) {
+    console.error('[Watchlist] ❌ Error loading watchlist:', error);
+    return null;
+  }
+}
+
+/**
+ * Persist the watchlist diff
+ * @param state - Instruments added at runtime and static security IDs removed
+ */
+export async function saveWatchlist(state: WatchlistState) {
+  try {
+    const db = getFirestoreServer();
+    if (!db) {
+      console.error('[Watchlist] Firestore not initialized - watchlist not persisted');
+      return;
+    }
+
+    await db.collection(WATCHLIST_COLLECTION).doc(WATCHLIST_DOC).set({
+      // Firestore rejects undefined values (e.g. an unset mode)
+      added: state.added.map(inst => JSON.parse(JSON.stringify(inst))),
+      removed: state.removed,
+      updatedAt: new Date(),
+    });
+
+    console.log(
+      `[Watchlist] ✅ Saved (${state.added.length} added, ${state.removed.length} removed)`
+    );
+  } catch (error) {
+    console.error('[Watchlist] ❌ Error saving watchlist:', error);
+  }
+}
@@ -0,0 +1,88 @@
+/**
+ * Persistence for outbound webhook subscriptions
+ *
+ * Same layout as alertStore.ts: the Firestore collection webhooks (one
+ * document per subscription) when Firestore is configured, otherwise a
+ * local JSON file (WEBHOOKS_FILE, default data/webhooks.json).
+ * WEBHOOK_STORE=file forces the local file.
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+import type { WebhookSubscription } from './webhooks';
+import { getFirestoreServer } from './firebaseServer';
+
+const WEBHOOKS_COLLECTION = 'webhooks';
+const DEFAULT_WEBHOOKS_FILE = path.join(process.cwd(), 'data', 'webhooks.json');
+
+function firestore() {
+  return process.env.WEBHOOK_STORE === 'file' ? null : getFirestoreServer();
+}
+
+function webhooksFile() {
+  return process.env.WEBHOOKS_FILE ?? DEFAULT_WEBHOOKS_FILE;
+}
+
+function readWebhooksFile(): WebhookSubscription[] {
+  const filePath = webhooksFile();
+  if (!fs.existsSync(filePath)) return [];
+  const data = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  return Array.isArray(data) ? data : [];
+}
+
+function writeWebhooksFile(webhooks: WebhookSubscription[]) {
+  const filePath = webhooksFile();
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, JSON.stringify(webhooks, null, 2));
+}
+
+export function getWebhookStoreName() {
+  return firestore() ? 'firestore' : 'file';
+}
+
+/**
+ * Load every stored subscription; resolves to [] when the store can't be read
+ */
+export async function loadWebhooks(): Promise<WebhookSubscription[]> {
+  try {
+    const db = firestore();
+    if (!db) return readWebhooksFile();
+
+    const snapshot = await db.collection(WEBHOOKS_COLLECTION).get();
+    return snapshot.docs.map(doc => doc.data() as WebhookSubscription);
+  } catch (error) {
+    console.error('[WebhookStore] ❌ Error loading webhooks:', error);
+    return [];
+  }
+}
+
+/**
+ * Create or replace one subscription
+ */
+export async function saveWebhook(webhook: WebhookSubscription) {
+  try {
+    const db = firestore();
+    if (!db) {
+      writeWebhooksFile([...readWebhooksFile().filter(w => w.id !== webhook.id), webhook]);
+      return;
+    }
+
+    // Firestore rejects undefined values (e.g. an unset symbol filter)
+    await db.collection(WEBHOOKS_COLLECTION).doc(webhook.id).set(JSON.parse(JSON.stringify(webhook)));
+  } catch (error) {
+    console.error(`[WebhookStore] ❌ Error saving webhook ${webhook.id}:`, error);
+  }
+}
+
+export async function removeWebhook(id: string) {
+  try {
+    const db = firestore();
+    if (!db) {
+      writeWebhooksFile(readWebhooksFile().filter(w => w.id !== id));
+      return;
+    }
+
+    await db.collection(WEBHOOKS_COLLECTION).doc(id).delete();
+  } catch (error) {
+    console.error(`[WebhookStore] ❌ Error deleting webhook ${id}:`, error);
+  }
+}
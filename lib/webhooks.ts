@@ -0,0 +1,696 @@
+/**
+ * Outbound webhooks for ticks, candles and alerts
+ *
+ * Each subscription names a URL, the event types it wants and optionally a
+ * symbol filter. Events come from tickStream.ts, like the SSE and WebSocket
+ * clients, and are POSTed in batches every WEBHOOK_BATCH_MS:
+ *
+ *   { "deliveryId", "webhookId", "events": [{ "seq", "type", "data", "at" }] }
+ *
+ * Within a batch only the latest tick per security is kept. Requests carry
+ * X-Webhook-Timestamp and X-Webhook-Signature: sha256=HMAC(secret,
+ * "<timestamp>.<body>") (see verifyWebhookSignature). Network errors, 408,
+ * 429 and 5xx responses are retried with exponential backoff; a delivery
+ * that still fails (or gets another 4xx) goes to the dead-letter log.
+ * Deliveries to one URL are sequential, so events arrive in order.
+ *
+ * Loopback, link-local and private addresses are refused as targets, both
+ * in the URL and in what its host resolves to, unless WEBHOOK_ALLOW_PRIVATE
+ * is "true" (e.g. for a receiver on the same network). The request connects
+ * to the address that was checked, and redirects are not followed.
+ */
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import * as dns from 'dns';
+import * as fs from 'fs';
+import * as http from 'http';
+import * as https from 'https';
+import { BlockList, isIP, type LookupFunction } from 'net';
+import * as path from 'path';
+import {
+  createCounter,
+  createGauge,
+  createHistogram,
+  registerMetricsCollector,
+} from './metrics';
+import { onStreamEvent, type StreamEvent } from './tickStream';
+import { loadWebhooks, removeWebhook, saveWebhook } from './webhookStore';
+
+// =====================
+// Constants
+// =====================
+export const WEBHOOK_EVENT_TYPES = ['tick', 'candle', 'alert'] as const;
+
+const BATCH_INTERVAL_MS = Number(process.env.WEBHOOK_BATCH_MS) || 1000;
+const MAX_BATCH_EVENTS = 500;
+// Candles and alerts queued per webhook while it is failing; oldest dropped first
+const MAX_QUEUED_EVENTS = 5000;
+
+const MAX_ATTEMPTS = Number(process.env.WEBHOOK_MAX_ATTEMPTS) || 6;
+const RETRY_BASE_MS = 1000;
+const RETRY_MAX_MS = 60 * 1000;
+const REQUEST_TIMEOUT_MS = Number(process.env.WEBHOOK_TIMEOUT_MS) || 5000;
+
+const ATTEMPT_HISTORY_LIMIT = 200;
+const DEAD_LETTER_HISTORY_LIMIT = 100;
+const DEFAULT_DEAD_LETTER_FILE = path.join(process.cwd(), 'data', 'webhook-dead-letter.jsonl');
+
+const ALLOW_PRIVATE_TARGETS = process.env.WEBHOOK_ALLOW_PRIVATE === 'true';
+const PRIVATE_ADDRESSES = new BlockList();
+[
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.168.0.0', 16],
+].forEach(([network, prefix]) => PRIVATE_ADDRESSES.addSubnet(network as string, prefix as number, 'ipv4'));
+[
+  // IPv4-mapped addresses (::ffff:a.b.c.d) are checked against the IPv4 rules
+  ['::', 127], // :: and ::1
+  ['fc00::', 7],
+  ['fe80::', 10],
+].forEach(([network, prefix]) => PRIVATE_ADDRESSES.addSubnet(network as string, prefix as number, 'ipv6'));
+
+// Error code of a connection refused by publicLookup
+const PRIVATE_ADDRESS_CODE = 'EPRIVATEADDRESS';
+
+export const SIGNATURE_HEADER = 'x-webhook-signature';
+export const TIMESTAMP_HEADER = 'x-webhook-timestamp';
+
+// =====================
+// Types
+// =====================
+export type WebhookEventType = (typeof WEBHOOK_EVENT_TYPES)[number];
+
+export interface WebhookSubscription {
+  id: string;
+  url: string;
+  events: WebhookEventType[];
+  // Only events for these symbols (all when unset)
+  symbols?: string[];
+  secret: string;
+  enabled: boolean;
+  description?: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+// Fields a client may set through /api/webhooks
+export type WebhookInput = Partial<
+  Pick<WebhookSubscription, 'url' | 'events' | 'symbols' | 'secret' | 'enabled' | 'description'>
+>;
+
+export interface WebhookEvent {
+  seq: number;
+  type: string;
+  data: unknown;
+  at: number; // Unix ms
+}
+
+export interface DeliveryAttempt {
+  deliveryId: string;
+  attempt: number;
+  at: number;
+  durationMs: number;
+  status: number | null;
+  ok: boolean;
+  error: string | null;
+  events: number;
+  // When the next attempt is due, if there is one
+  nextRetryAt: number | null;
+}
+
+export interface DeadLetter {
+  deliveryId: string;
+  webhookId: string;
+  url: string;
+  attempts: number;
+  lastStatus: number | null;
+  lastError: string | null;
+  failedAt: number;
+  events: WebhookEvent[];
+}
+
+interface Delivery {
+  id: string;
+  events: WebhookEvent[];
+  attempts: number;
+}
+
+interface WebhookRuntime {
+  symbols: Set<string> | null;
+  queue: WebhookEvent[];
+  // Latest pending tick per security
+  ticks: Map<number, WebhookEvent>;
+  inFlight: Delivery | null;
+  retryTimer: NodeJS.Timeout | null;
+  delivered: number;
+  deadLettered: number;
+  dropped: number;
+  attempts: DeliveryAttempt[];
+}
+
+// =====================
+// State
+// =====================
+const webhooks = new Map<string, WebhookSubscription>();
+const runtimes = new Map<string, WebhookRuntime>();
+const deadLetters: DeadLetter[] = [];
+
+let webhooksLoaded: Promise<void> | null = null;
+let stopListening: (() => void) | null = null;
+let flushTimer: NodeJS.Timeout | null = null;
+
+// =====================
+// Metrics
+// =====================
+const deliveriesTotal = createCounter(
+  'webhook_deliveries_total',
+  'Webhook delivery attempts by result (success, retry, dead_letter)'
+);
+const deliverySeconds = createHistogram(
+  'webhook_delivery_seconds',
+  'Duration of one webhook POST',
+  [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10]
+);
+const queuedEventsGauge = createGauge(
+  'webhook_queued_events',
+  'Events waiting for delivery per webhook'
+);
+
+registerMetricsCollector(() => {
+  queuedEventsGauge.reset();
+  runtimes.forEach((runtime, webhookId) => {
+    queuedEventsGauge.set({ webhook_id: webhookId }, runtime.queue.length + runtime.ticks.size);
+  });
+});
+
+// =====================
+// Signing
+// =====================
+export function signWebhookPayload(secret: string, timestamp: number, body: string) {
+  return `sha256=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+}
+
+/**
+ * Check a received webhook (for receivers written in TypeScript, e.g.
+ * scripts/webhook-receiver.ts)
+ * @param toleranceSeconds - Reject timestamps this far from now (replay protection)
+ */
+export function verifyWebhookSignature(
+  secret: string,
+  timestamp: string | number | null,
+  body: string,
+  signature: string | null,
+  toleranceSeconds = 300
+): boolean {
+  const ts = Number(timestamp);
+  if (!signature || !Number.isFinite(ts)) return false;
+  if (Math.abs(Date.now() / 1000 - ts) > toleranceSeconds) return false;
+
+  const expected = Buffer.from(signWebhookPayload(secret, ts, body));
+  const received = Buffer.from(signature);
+  return expected.length === received.length && timingSafeEqual(expected, received);
+}
+
+// =====================
+// Helpers
+// =====================
+function createRuntime(webhook: WebhookSubscription): WebhookRuntime {
+  return {
+    symbols: webhook.symbols && webhook.symbols.length > 0 ? new Set(webhook.symbols) : null,
+    queue: [],
+    ticks: new Map(),
+    inFlight: null,
+    retryTimer: null,
+    delivered: 0,
+    deadLettered: 0,
+    dropped: 0,
+    attempts: [],
+  };
+}
+
+function registerWebhook(webhook: WebhookSubscription) {
+  webhooks.set(webhook.id, webhook);
+  const runtime = runtimes.get(webhook.id);
+  if (runtime) {
+    runtime.symbols = createRuntime(webhook).symbols;
+  } else {
+    runtimes.set(webhook.id, createRuntime(webhook));
+  }
+}
+
+function newId() {
+  return `${Date.now().toString(36)}${Math.random().toString(36).substring(2, 8)}`;
+}
+
+function isPrivateAddress(address: string) {
+  const family = isIP(address);
+  if (family === 0) return false;
+  return PRIVATE_ADDRESSES.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+function privateAddressError(message: string) {
+  const error: NodeJS.ErrnoException = new Error(`${message} (see WEBHOOK_ALLOW_PRIVATE)`);
+  error.code = PRIVATE_ADDRESS_CODE;
+  return error;
+}
+
+/**
+ * dns.lookup for webhook connections that fails when any address is
+ * private, so the address checked is the one connected to (no separate
+ * lookup a rebinding DNS server could answer differently)
+ */
+const publicLookup: LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) return callback(error, '');
+
+    const blocked = addresses.find(entry => isPrivateAddress(entry.address));
+    if (blocked) {
+      return callback(privateAddressError(`${hostname} resolves to private address ${blocked.address}`), '');
+    }
+    if (options.all) return callback(null, addresses);
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+};
+
+/**
+ * POST a delivery without following redirects
+ * @returns The response status
+ */
+function postWebhook(target: URL, headers: Record<string, string>, body: string): Promise<number> {
+  // Literal addresses never reach the lookup (e.g. subscriptions stored before the check)
+  if (!ALLOW_PRIVATE_TARGETS && isPrivateAddress(target.hostname.replace(/^\[|\]$/g, ''))) {
+    return Promise.reject(privateAddressError(`${target.hostname} is a private address`));
+  }
+
+  const request = target.protocol === 'https:' ? https.request : http.request;
+  return new Promise((resolve, reject) => {
+    const req = request(
+      target,
+      {
+        method: 'POST',
+        headers: { ...headers, 'Content-Length': String(Buffer.byteLength(body)) },
+        ...(ALLOW_PRIVATE_TARGETS ? {} : { lookup: publicLookup }),
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+      },
+      (response) => {
+        response.resume();
+        resolve(response.statusCode ?? 0);
+      }
+    );
+    req.on('error', reject);
+    req.end(body);
+  });
+}
+
+/**
+ * Validate a subscription (new or patched) and fill in defaults
+ * @throws Error describing the first invalid field
+ */
+function normalizeWebhook(input: WebhookInput, existing?: WebhookSubscription): WebhookSubscription {
+  const merged = { ...existing, ...input };
+  const now = Date.now();
+
+  let url: URL;
+  try {
+    url = new URL(String(merged.url ?? ''));
+  } catch {
+    throw new Error('"url" must be an absolute http(s) URL');
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new Error('"url" must be an absolute http(s) URL');
+  }
+  const host = url.hostname.replace(/^\[|\]$/g, '').toLowerCase();
+  if (
+    !ALLOW_PRIVATE_TARGETS &&
+    (host === 'localhost' || host.endsWith('.localhost') || isPrivateAddress(host))
+  ) {
+    throw new Error('"url" must not point to a loopback, link-local or private address');
+  }
+
+  const events = Array.isArray(merged.events) ? merged.events : [];
+  if (events.length === 0 || events.some(type => !WEBHOOK_EVENT_TYPES.includes(type))) {
+    throw new Error(`"events" must list one or more of ${WEBHOOK_EVENT_TYPES.join(', ')}`);
+  }
+
+  const symbols = Array.isArray(merged.symbols)
+    ? merged.symbols.map(String).map(s => s.trim()).filter(Boolean)
+    : [];
+
+  const enabled = merged.enabled ?? true;
+  if (typeof enabled !== 'boolean') {
+    throw new Error('"enabled" must be true or false');
+  }
+
+  return {
+    id: existing?.id ?? newId(),
+    url: url.toString(),
+    events: Array.from(new Set(events)),
+    ...(symbols.length > 0 ? { symbols } : {}),
+    secret: merged.secret ? String(merged.secret) : randomBytes(24).toString('hex'),
+    enabled,
+    ...(merged.description ? { description: String(merged.description) } : {}),
+    createdAt: existing?.createdAt ?? now,
+    updatedAt: now,
+  };
+}
+
+function enqueue(runtime: WebhookRuntime, event: WebhookEvent, securityId?: number) {
+  if (event.type === 'tick' && securityId !== undefined) {
+    runtime.ticks.set(securityId, event);
+    return;
+  }
+
+  runtime.queue.push(event);
+  trimQueue(runtime);
+}
+
+function trimQueue(runtime: WebhookRuntime) {
+  if (runtime.queue.length > MAX_QUEUED_EVENTS) {
+    runtime.dropped += runtime.queue.length - MAX_QUEUED_EVENTS;
+    runtime.queue.splice(0, runtime.queue.length - MAX_QUEUED_EVENTS);
+  }
+}
+
+/**
+ * Put an undelivered batch back at the front of the queue, so the next
+ * flush after a restart sends it again
+ */
+function requeueDelivery(runtime: WebhookRuntime, delivery: Delivery) {
+  runtime.queue.unshift(...delivery.events);
+  trimQueue(runtime);
+  runtime.inFlight = null;
+}
+
+function handleStreamEvent(event: StreamEvent) {
+  if (!WEBHOOK_EVENT_TYPES.includes(event.type as WebhookEventType)) return;
+
+  const webhookEvent: WebhookEvent = { seq: event.seq, type: event.type, data: event.data, at: Date.now() };
+  webhooks.forEach((webhook) => {
+    if (!webhook.enabled || !webhook.events.includes(event.type as WebhookEventType)) return;
+
+    const runtime = runtimes.get(webhook.id);
+    if (!runtime) return;
+    if (runtime.symbols && (!event.instrument || !runtime.symbols.has(event.instrument.symbol))) {
+      return;
+    }
+    enqueue(runtime, webhookEvent, event.instrument?.securityId);
+  });
+}
+
+function takeBatch(runtime: WebhookRuntime): WebhookEvent[] {
+  const events = [...runtime.queue.splice(0, MAX_BATCH_EVENTS), ...runtime.ticks.values()];
+  runtime.ticks.clear();
+  return events.sort((a, b) => a.seq - b.seq);
+}
+
+function recordAttempt(runtime: WebhookRuntime, attempt: DeliveryAttempt) {
+  runtime.attempts.push(attempt);
+  if (runtime.attempts.length > ATTEMPT_HISTORY_LIMIT) {
+    runtime.attempts.splice(0, runtime.attempts.length - ATTEMPT_HISTORY_LIMIT);
+  }
+}
+
+function writeDeadLetter(entry: DeadLetter) {
+  deadLetters.push(entry);
+  if (deadLetters.length > DEAD_LETTER_HISTORY_LIMIT) {
+    deadLetters.splice(0, deadLetters.length - DEAD_LETTER_HISTORY_LIMIT);
+  }
+
+  const filePath = process.env.WEBHOOK_DEAD_LETTER_FILE ?? DEFAULT_DEAD_LETTER_FILE;
+  fs.promises
+    .mkdir(path.dirname(filePath), { recursive: true })
+    .then(() => fs.promises.appendFile(filePath, JSON.stringify(entry) + '\n'))
+    .catch(error => console.error('[Webhooks] ❌ Error writing dead letter:', error));
+}
+
+function deadLetterDelivery(
+  webhook: WebhookSubscription,
+  runtime: WebhookRuntime,
+  delivery: Delivery,
+  status: number | null,
+  error: string | null
+) {
+  deliveriesTotal.inc({ result: 'dead_letter' });
+  console.error(
+    `[Webhooks] ❌ Delivery ${delivery.id} to ${webhook.url} failed after ${delivery.attempts} attempts (${error})`
+  );
+  runtime.deadLettered++;
+  runtime.inFlight = null;
+  writeDeadLetter({
+    deliveryId: delivery.id,
+    webhookId: webhook.id,
+    url: webhook.url,
+    attempts: delivery.attempts,
+    lastStatus: status,
+    lastError: error,
+    failedAt: Date.now(),
+    events: delivery.events,
+  });
+}
+
+/**
+ * One delivery attempt; the subscription is looked up each time, so a
+ * PATCH to its url / secret applies to pending retries
+ */
+async function attemptDelivery(webhookId: string, runtime: WebhookRuntime, delivery: Delivery) {
+  const webhook = webhooks.get(webhookId);
+  if (!webhook) {
+    // Deleted meanwhile; deleteWebhook() dropped its runtime too
+    runtime.inFlight = null;
+    return;
+  }
+  if (!webhook.enabled) {
+    deadLetterDelivery(webhook, runtime, delivery, null, 'Webhook disabled');
+    return;
+  }
+
+  delivery.attempts++;
+  const body = JSON.stringify({ deliveryId: delivery.id, webhookId: webhook.id, events: delivery.events });
+  const timestamp = Math.floor(Date.now() / 1000);
+  const startedAt = Date.now();
+
+  let status: number | null = null;
+  let error: string | null = null;
+  let refused = false;
+  try {
+    status = await postWebhook(new URL(webhook.url), {
+      'Content-Type': 'application/json',
+      'User-Agent': 'dhan-websocket-webhooks',
+      'X-Webhook-Id': webhook.id,
+      'X-Webhook-Delivery': delivery.id,
+      'X-Webhook-Attempt': String(delivery.attempts),
+      [TIMESTAMP_HEADER]: String(timestamp),
+      [SIGNATURE_HEADER]: signWebhookPayload(webhook.secret, timestamp, body),
+    }, body);
+    if (status >= 300 && status < 400) {
+      // A redirect could point anywhere, including past the address checks
+      refused = true;
+      error = `HTTP ${status} (redirects are not followed)`;
+    } else if (status < 200 || status >= 300) {
+      error = `HTTP ${status}`;
+    }
+  } catch (err) {
+    refused = (err as NodeJS.ErrnoException).code === PRIVATE_ADDRESS_CODE;
+    error = err instanceof Error ? err.message : String(err);
+  }
+
+  const durationMs = Date.now() - startedAt;
+  deliverySeconds.observe(durationMs / 1000);
+
+  const ok = error === null;
+  const retryable = !ok && !refused && (status === null || status === 408 || status === 429 || status >= 500);
+  const willRetry = retryable && delivery.attempts < MAX_ATTEMPTS && webhooks.has(webhook.id);
+  const retryDelay = Math.min(RETRY_BASE_MS * 2 ** (delivery.attempts - 1), RETRY_MAX_MS);
+
+  recordAttempt(runtime, {
+    deliveryId: delivery.id,
+    attempt: delivery.attempts,
+    at: startedAt,
+    durationMs,
+    status,
+    ok,
+    error,
+    events: delivery.events.length,
+    nextRetryAt: willRetry ? Date.now() + retryDelay : null,
+  });
+
+  if (ok) {
+    deliveriesTotal.inc({ result: 'success' });
+    runtime.delivered++;
+    runtime.inFlight = null;
+    return;
+  }
+
+  if (willRetry && !stopListening) {
+    // Stopped while this attempt was running
+    requeueDelivery(runtime, delivery);
+    return;
+  }
+
+  if (willRetry) {
+    deliveriesTotal.inc({ result: 'retry' });
+    console.warn(
+      `[Webhooks] Delivery ${delivery.id} to ${webhook.url} failed (${error}), retry ${delivery.attempts}/${MAX_ATTEMPTS - 1} in ${retryDelay}ms`
+    );
+    runtime.retryTimer = setTimeout(() => {
+      runtime.retryTimer = null;
+      attemptDelivery(webhook.id, runtime, delivery);
+    }, retryDelay);
+    return;
+  }
+
+  deadLetterDelivery(webhook, runtime, delivery, status, error);
+}
+
+function flushWebhooks() {
+  webhooks.forEach((webhook) => {
+    const runtime = runtimes.get(webhook.id);
+    if (!runtime || runtime.inFlight) return;
+    if (runtime.queue.length === 0 && runtime.ticks.size === 0) return;
+
+    const delivery: Delivery = { id: newId(), events: takeBatch(runtime), attempts: 0 };
+    runtime.inFlight = delivery;
+    attemptDelivery(webhook.id, runtime, delivery);
+  });
+}
+
+// Secrets are only returned when a subscription is created
+function withoutSecret(webhook: WebhookSubscription) {
+  const { secret, ...rest } = webhook;
+  return { ...rest, secret: `${secret.slice(0, 4)}…` };
+}
+
+// =====================
+// Public API
+// =====================
+
+/**
+ * Load the stored subscriptions once per process
+ */
+export function loadWebhookSubscriptions(): Promise<void> {
+  webhooksLoaded ??= loadWebhooks().then((stored) => {
+    stored.forEach(registerWebhook);
+    console.log(`[Webhooks] Loaded ${stored.length} webhook subscriptions`);
+  });
+  return webhooksLoaded;
+}
+
+/**
+ * Start listening for stream events and delivering batches
+ */
+export function startWebhooks() {
+  if (stopListening) return;
+  loadWebhookSubscriptions();
+  stopListening = onStreamEvent(handleStreamEvent);
+  flushTimer = setInterval(flushWebhooks, BATCH_INTERVAL_MS);
+}
+
+export function stopWebhooks() {
+  stopListening?.();
+  stopListening = null;
+  if (flushTimer) clearInterval(flushTimer);
+  flushTimer = null;
+  // A batch waiting for its retry goes back on the queue; one whose request
+  // is still running requeues itself if it fails (see attemptDelivery)
+  runtimes.forEach((runtime) => {
+    if (!runtime.retryTimer) return;
+    clearTimeout(runtime.retryTimer);
+    runtime.retryTimer = null;
+    if (runtime.inFlight) requeueDelivery(runtime, runtime.inFlight);
+  });
+}
+
+export function listWebhooks() {
+  return Array.from(webhooks.values())
+    .sort((a, b) => a.createdAt - b.createdAt)
+    .map(webhook => ({ ...withoutSecret(webhook), stats: getWebhookStats(webhook.id) }));
+}
+
+export function getWebhook(id: string) {
+  const webhook = webhooks.get(id);
+  return webhook ? { ...withoutSecret(webhook), stats: getWebhookStats(id) } : null;
+}
+
+/**
+ * @returns The subscription including its signing secret
+ * @throws Error when the input is not a valid subscription
+ */
+export async function createWebhook(input: WebhookInput): Promise<WebhookSubscription> {
+  await loadWebhookSubscriptions();
+  const webhook = normalizeWebhook(input);
+  registerWebhook(webhook);
+  await saveWebhook(webhook);
+  return webhook;
+}
+
+/**
+ * Apply a partial update; resolves to null when the subscription doesn't exist
+ * @throws Error when the result is not a valid subscription
+ */
+export async function updateWebhook(id: string, patch: WebhookInput) {
+  await loadWebhookSubscriptions();
+  const existing = webhooks.get(id);
+  if (!existing) return null;
+
+  const webhook = normalizeWebhook(patch, existing);
+  registerWebhook(webhook);
+  await saveWebhook(webhook);
+  return getWebhook(id);
+}
+
+export async function deleteWebhook(id: string): Promise<boolean> {
+  await loadWebhookSubscriptions();
+  if (!webhooks.delete(id)) return false;
+
+  const runtime = runtimes.get(id);
+  if (runtime?.retryTimer) clearTimeout(runtime.retryTimer);
+  runtimes.delete(id);
+  await removeWebhook(id);
+  return true;
+}
+
+/**
+ * Queue a `ping` event for one subscription, ignoring its filters
+ */
+export function pingWebhook(id: string): boolean {
+  const runtime = runtimes.get(id);
+  if (!webhooks.has(id) || !runtime) return false;
+  enqueue(runtime, { seq: 0, type: 'ping', data: { webhookId: id }, at: Date.now() });
+  return true;
+}
+
+export function getWebhookStats(id: string) {
+  const runtime = runtimes.get(id);
+  if (!runtime) return null;
+  return {
+    queued: runtime.queue.length + runtime.ticks.size,
+    inFlight: runtime.inFlight
+      ? { deliveryId: runtime.inFlight.id, attempts: runtime.inFlight.attempts }
+      : null,
+    delivered: runtime.delivered,
+    deadLettered: runtime.deadLettered,
+    dropped: runtime.dropped,
+    lastAttempt: runtime.attempts[runtime.attempts.length - 1] ?? null,
+  };
+}
+
+/**
+ * Recent delivery attempts for one subscription, newest first
+ */
+export function getDeliveryAttempts(id: string, limit = 50): DeliveryAttempt[] {
+  return (runtimes.get(id)?.attempts ?? []).slice(-limit).reverse();
+}
+
+/**
+ * Recent dead letters (this process), newest first; the full log is
+ * WEBHOOK_DEAD_LETTER_FILE
+ */
+export function getDeadLetters(webhookId?: string, limit = 20): DeadLetter[] {
+  return deadLetters
+    .filter(entry => !webhookId || entry.webhookId === webhookId)
+    .slice(-limit)
+    .reverse();
+}
@@ -0,0 +1,287 @@
+/**
+ * WebSocket fan-out for browser clients
+ *
+ * Two-way alternative to the SSE stream on /api/ticks: one connection per
+ * client that can change its symbol set on the fly. Events come from the
+ * same singleton feed via tickStream.ts - nothing here talks to Dhan.
+ *
+ * Next.js route handlers can't accept WebSocket upgrades, so this listens
+ * on its own port; /api/ws returns the URL. It only starts when
+ * WS_FANOUT_PORT is set, so importing the feed doesn't bind a port in
+ * builds, scripts or every worker of a multi-process deployment.
+ * Middleware doesn't see that port either, so the upgrade is checked here
+ * with the same credentials (API key header or session cookie, ticks:read).
+ *
+ * Client -> server (JSON):
+ *   { "action": "subscribe", "symbols": ["INFY.NS"], "securityIds": [1594] }
+ *   { "action": "unsubscribe", "symbols": [...], "securityIds": [...] }
+ *   { "action": "ping" }
+ *
+ * Server -> client: { "type", "data" } with type welcome | subscribed |
+ * initial | tick | candle | status | pong | error
+ */
+import type { IncomingMessage } from 'http';
+import { WebSocketServer, WebSocket, type VerifyClientCallbackAsync } from 'ws';
+import { authenticate, checkRateLimit, hasScope, isAuthEnabled } from './auth';
+import type { TickData } from './dhanSocket';
+import { matchesFilter, onStreamEvent, type StreamEvent } from './tickStream';
+
+// =====================
+// Constants
+// =====================
+const MAX_CLIENTS = Number(process.env.WS_FANOUT_MAX_CLIENTS) || 500;
+const MAX_SUBSCRIPTIONS_PER_CLIENT = Number(process.env.WS_FANOUT_MAX_SUBSCRIPTIONS) || 200;
+
+// A client with this much unsent data skips ticks until it catches up
+const MAX_BUFFERED_BYTES = 1024 * 1024;
+
+// =====================
+// Types
+// =====================
+export interface WsFanoutOptions {
+  // Default WS_FANOUT_PORT
+  port?: number;
+  // Latest tick per security, for the snapshot sent on subscribe
+  snapshot: () => TickData[];
+  // Sent in the welcome message
+  status: () => unknown;
+}
+
+interface FanoutClient {
+  id: string;
+  // API key name, or null with AUTH=off
+  principal: string | null;
+  socket: WebSocket;
+  symbols: Set<string>;
+  securityIds: Set<number>;
+  dropped: number;
+}
+
+interface ClientMessage {
+  action?: string;
+  symbols?: unknown;
+  securityIds?: unknown;
+}
+
+// =====================
+// State
+// =====================
+let server: WebSocketServer | null = null;
+let stopListening: (() => void) | null = null;
+let fanoutPort: number | null = null;
+const clients = new Map<string, FanoutClient>();
+const upgradePrincipals = new WeakMap<IncomingMessage, string>();
+
+// =====================
+// Helpers
+// =====================
+function sendJson(client: FanoutClient, type: string, data: unknown) {
+  if (client.socket.readyState !== WebSocket.OPEN) return;
+  client.socket.send(JSON.stringify({ type, data }));
+}
+
+function subscriptionSummary(client: FanoutClient) {
+  return {
+    symbols: Array.from(client.symbols),
+    securityIds: Array.from(client.securityIds),
+    limit: MAX_SUBSCRIPTIONS_PER_CLIENT,
+  };
+}
+
+function stringList(value: unknown): string[] {
+  return Array.isArray(value) ? value.map(String).map(v => v.trim()).filter(Boolean) : [];
+}
+
+function idList(value: unknown): number[] {
+  return stringList(value).map(Number).filter(Number.isFinite);
+}
+
+function handleClientMessage(client: FanoutClient, raw: string, options: WsFanoutOptions) {
+  let message: ClientMessage;
+  try {
+    message = JSON.parse(raw);
+  } catch {
+    sendJson(client, 'error', { message: 'Invalid JSON message' });
+    return;
+  }
+
+  const symbols = stringList(message.symbols);
+  const securityIds = idList(message.securityIds);
+
+  switch (message.action) {
+    case 'ping':
+      sendJson(client, 'pong', { at: Date.now() });
+      return;
+
+    case 'subscribe': {
+      const newSymbols = symbols.filter(symbol => !client.symbols.has(symbol));
+      const newIds = securityIds.filter(id => !client.securityIds.has(id));
+      const total = client.symbols.size + client.securityIds.size + newSymbols.length + newIds.length;
+
+      // All or nothing, so the client never ends up with a partial set
+      if (total > MAX_SUBSCRIPTIONS_PER_CLIENT) {
+        sendJson(client, 'error', {
+          message: `Subscription limit of ${MAX_SUBSCRIPTIONS_PER_CLIENT} exceeded`,
+          limit: MAX_SUBSCRIPTIONS_PER_CLIENT,
+          requested: total,
+        });
+        return;
+      }
+
+      newSymbols.forEach(symbol => client.symbols.add(symbol));
+      newIds.forEach(id => client.securityIds.add(id));
+      sendJson(client, 'subscribed', subscriptionSummary(client));
+
+      const added = { symbols: new Set(newSymbols), securityIds: new Set(newIds) };
+      const initial = options
+        .snapshot()
+        .filter(tick => matchesFilter(added, { securityId: tick.securityId, symbol: tick.symbol }));
+      if (initial.length > 0) sendJson(client, 'initial', initial);
+      return;
+    }
+
+    case 'unsubscribe':
+      symbols.forEach(symbol => client.symbols.delete(symbol));
+      securityIds.forEach(id => client.securityIds.delete(id));
+      sendJson(client, 'subscribed', subscriptionSummary(client));
+      return;
+
+    default:
+      sendJson(client, 'error', { message: `Unknown action "${message.action}"` });
+  }
+}
+
+const verifyUpgrade: VerifyClientCallbackAsync<IncomingMessage> = (info, callback) => {
+  if (!isAuthEnabled()) {
+    callback(true);
+    return;
+  }
+
+  const headers = {
+    get: (name: string) => {
+      const value = info.req.headers[name];
+      return Array.isArray(value) ? value.join(', ') : value ?? null;
+    },
+  };
+
+  authenticate(headers)
+    .then((principal) => {
+      if (!principal) return callback(false, 401, 'Authentication required');
+      if (!hasScope(principal, 'ticks:read')) return callback(false, 403, 'ticks:read scope required');
+      if (!checkRateLimit(principal).allowed) return callback(false, 429, 'Rate limit exceeded');
+
+      upgradePrincipals.set(info.req, principal.name);
+      callback(true);
+    })
+    .catch((error) => {
+      console.error('[WsFanout] ❌ Authentication failed:', error);
+      callback(false, 500);
+    });
+};
+
+function deliver(event: StreamEvent) {
+  let payload: string | null = null;
+
+  clients.forEach((client) => {
+    if (event.instrument) {
+      // Unlike SSE, an empty subscription set means "nothing"
+      if (client.symbols.size === 0 && client.securityIds.size === 0) return;
+      const filter = { symbols: client.symbols, securityIds: client.securityIds };
+      if (!matchesFilter(filter, event.instrument)) return;
+    }
+
+    if (event.type === 'tick' && client.socket.bufferedAmount > MAX_BUFFERED_BYTES) {
+      client.dropped++;
+      return;
+    }
+
+    payload ??= JSON.stringify({ type: event.type, data: event.data });
+    if (client.socket.readyState === WebSocket.OPEN) client.socket.send(payload);
+  });
+}
+
+// =====================
+// Public API
+// =====================
+export function startWsFanout(options: WsFanoutOptions) {
+  if (server) return;
+
+  const port = options.port ?? Number(process.env.WS_FANOUT_PORT);
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    console.error(`[WsFanout] ❌ Invalid port "${process.env.WS_FANOUT_PORT}" - fan-out not started`);
+    return;
+  }
+
+  const instance = new WebSocketServer({ port, verifyClient: verifyUpgrade });
+  server = instance;
+  fanoutPort = port;
+
+  instance.on('listening', () => {
+    console.log(`[WsFanout] ✅ Listening on ws://localhost:${port}`);
+  });
+
+  // E.g. EADDRINUSE: drop this server only. Connected clients and the
+  // stream listener stay with whichever server is current.
+  instance.on('error', (error) => {
+    console.error('[WsFanout] ❌ Server error:', error);
+    instance.close();
+    if (server !== instance) return;
+    server = null;
+    fanoutPort = null;
+  });
+
+  instance.on('connection', (socket: WebSocket, request: IncomingMessage) => {
+    if (clients.size >= MAX_CLIENTS) {
+      socket.close(1013, 'Too many clients');
+      return;
+    }
+
+    const client: FanoutClient = {
+      id: Math.random().toString(36).substring(7),
+      principal: upgradePrincipals.get(request) ?? null,
+      socket,
+      symbols: new Set(),
+      securityIds: new Set(),
+      dropped: 0,
+    };
+    clients.set(client.id, client);
+
+    socket.on('message', data => handleClientMessage(client, data.toString(), options));
+    socket.on('close', () => clients.delete(client.id));
+    socket.on('error', () => clients.delete(client.id));
+
+    sendJson(client, 'welcome', {
+      clientId: client.id,
+      maxSubscriptions: MAX_SUBSCRIPTIONS_PER_CLIENT,
+      status: options.status(),
+    });
+  });
+
+  stopListening ??= onStreamEvent(deliver);
+}
+
+export function stopWsFanout() {
+  stopListening?.();
+  stopListening = null;
+
+  clients.forEach(client => client.socket.close(1001, 'Server shutting down'));
+  clients.clear();
+
+  server?.close();
+  server = null;
+  fanoutPort = null;
+}
+
+export function getWsFanoutStatus() {
+  return {
+    running: server !== null,
+    port: fanoutPort,
+    clients: Array.from(clients.values(), client => ({
+      id: client.id,
+      principal: client.principal,
+      subscriptions: client.symbols.size + client.securityIds.size,
+      bufferedBytes: client.socket.bufferedAmount,
+      dropped: client.dropped,
+    })),
+  };
+}
@@ -0,0 +1,73 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import {
+  authenticate,
+  checkRateLimit,
+  hasScope,
+  isAuthEnabled,
+  routeAccess,
+  type RouteAccess,
+} from '@/lib/auth';
+
+/**
+ * Authentication for API routes and pages (see lib/auth.ts)
+ *
+ * API routes answer 401 without credentials, 403 without the route's
+ * scope and 429 over the key's rate limit. Pages redirect to /login
+ * instead.
+ */
+export const config = {
+  matcher: ['/api/:path*', '/', '/symbol/:path*'],
+};
+
+function jsonError(error: string, status: number, headers?: Record<string, string>) {
+  return NextResponse.json({ error }, { status, headers });
+}
+
+export async function middleware(request: NextRequest) {
+  if (!isAuthEnabled()) return NextResponse.next();
+
+  const { pathname, search } = request.nextUrl;
+  const isApi = pathname.startsWith('/api/');
+  const access: RouteAccess | null = isApi
+    ? routeAccess(pathname, request.method)
+    : { scope: 'ticks:read', apiKeyOnly: false };
+  if (!access) return NextResponse.next();
+  const { scope } = access;
+
+  const principal = await authenticate(request.headers);
+
+  if (!isApi) {
+    if (principal && hasScope(principal, scope)) return NextResponse.next();
+
+    const login = new URL('/login', request.url);
+    login.searchParams.set('next', `${pathname}${search}`);
+    return NextResponse.redirect(login);
+  }
+
+  if (!principal) {
+    return jsonError('Authentication required', 401, { 'WWW-Authenticate': 'Bearer' });
+  }
+  if (!hasScope(principal, scope)) {
+    return jsonError(`"${principal.name}" lacks the ${scope} scope`, 403);
+  }
+  if (access.apiKeyOnly && principal.via !== 'api_key') {
+    return jsonError(`${request.method} ${pathname} needs an API key, not a session`, 403);
+  }
+
+  const rate = checkRateLimit(principal);
+  const rateHeaders = {
+    'X-RateLimit-Limit': String(rate.limit),
+    'X-RateLimit-Remaining': String(rate.remaining),
+    'X-RateLimit-Reset': String(Math.ceil(rate.resetAt / 1000)),
+  };
+  if (!rate.allowed) {
+    return jsonError('Rate limit exceeded', 429, {
+      ...rateHeaders,
+      'Retry-After': String(Math.max(Math.ceil((rate.resetAt - Date.now()) / 1000), 1)),
+    });
+  }
+
+  const response = NextResponse.next();
+  Object.entries(rateHeaders).forEach(([name, value]) => response.headers.set(name, value));
+  return response;
+}
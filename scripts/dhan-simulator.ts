@@ -0,0 +1,76 @@
+/**
+ * Run the local Dhan feed simulator
+ *
+ * Usage:
+ *   npm run simulator -- [--port 8765] [--interval 1000]
+ *     [--malformed-rate 0.01] [--close-after 300] [--reject-auth]
+ *
+ * Then start the app with DHAN_WS_URL=ws://localhost:8765
+ *
+ * While running, type a fault name and press enter to inject it:
+ *   malformed | close | disconnect | auth_expired | stall | reject-auth on|off
+ */
+
+import * as readline from 'readline';
+import { startDhanSimulator, type SimulatorFault } from '../lib/dhanSimulator';
+
+const FAULTS: SimulatorFault[] = ['malformed', 'close', 'disconnect', 'auth_expired', 'stall'];
+
+function readFlag(name: string): string | undefined {
+  const index = process.argv.indexOf(`--${name}`);
+  if (index === -1) return undefined;
+  const value = process.argv[index + 1];
+  return value && !value.startsWith('--') ? value : 'true';
+}
+
+function readNumber(name: string): number | undefined {
+  const value = readFlag(name);
+  if (value === undefined) return undefined;
+
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed)) {
+    throw new Error(`--${name} must be a number`);
+  }
+  return parsed;
+}
+
+async function main() {
+  const simulator = await startDhanSimulator({
+    port: readNumber('port'),
+    tickIntervalMs: readNumber('interval'),
+    malformedRate: readNumber('malformed-rate'),
+    closeAfterSeconds: readNumber('close-after'),
+    rejectAuth: readFlag('reject-auth') === 'true',
+  });
+
+  console.log(`\nSet DHAN_WS_URL=${simulator.url} to point the app at the simulator`);
+  console.log(`Faults: ${FAULTS.join(' | ')} | reject-auth on|off\n`);
+
+  const rl = readline.createInterface({ input: process.stdin });
+  rl.on('line', (line) => {
+    const [command, arg] = line.trim().split(/\s+/);
+    if (!command) return;
+
+    if (command === 'reject-auth') {
+      simulator.setRejectAuth(arg !== 'off');
+      console.log(`reject-auth ${arg !== 'off' ? 'on' : 'off'}`);
+    } else if (FAULTS.includes(command as SimulatorFault)) {
+      simulator.injectFault(command as SimulatorFault);
+    } else {
+      console.log(`Unknown command "${command}"`);
+    }
+  });
+
+  const shutdown = async () => {
+    rl.close();
+    await simulator.close();
+    process.exit(0);
+  };
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+}
+
+main().catch((error) => {
+  console.error('❌ Simulator failed to start:', error);
+  process.exit(1);
+});
@@ -148,10 +148,13 @@ const enrichedContent = `/**
  * Each instrument includes symbol, exchange segment, and securityId
  * These are NSE equity stocks with .NS suffix
  */
+export type DhanFeedMode = "ticker" | "quote" | "full";
+
 export interface DhanInstrument {
   symbol: string;
-  exchange: "NSE_EQ" | "NSE_FNO";
+  exchange: "NSE_EQ" | "NSE_FNO" | "IDX_I";
   securityId: string; // Required for WebSocket subscription
+  mode?: DhanFeedMode; // Defaults to "ticker" (LTP only)
 }
 
 export const STOCK_INSTRUMENTS: DhanInstrument[] = [
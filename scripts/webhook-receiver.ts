@@ -0,0 +1,90 @@
+/**
+ * Local webhook receiver for testing /api/webhooks deliveries
+ *
+ * Usage:
+ *   npm run webhook-receiver -- [--port 4000] [--secret <secret>]
+ *     [--fail-rate 0.3] [--status 503]
+ *
+ * Register it with:
+ *   curl -X POST localhost:3000/api/webhooks -H 'Content-Type: application/json' \
+ *     -d '{ "url": "http://localhost:4000/hook", "events": ["candle", "alert"] }'
+ *
+ * Prints every delivery and checks its signature when --secret is given.
+ * --fail-rate answers that share of requests with --status (default 503)
+ * to exercise retries and the dead-letter log.
+ */
+
+import * as http from 'http';
+import { SIGNATURE_HEADER, TIMESTAMP_HEADER, verifyWebhookSignature } from '../lib/webhooks';
+
+function readFlag(name: string): string | undefined {
+  const index = process.argv.indexOf(`--${name}`);
+  if (index === -1) return undefined;
+  const value = process.argv[index + 1];
+  return value && !value.startsWith('--') ? value : 'true';
+}
+
+function readNumber(name: string, fallback: number): number {
+  const value = readFlag(name);
+  if (value === undefined) return fallback;
+
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed)) {
+    throw new Error(`--${name} must be a number`);
+  }
+  return parsed;
+}
+
+function main() {
+  const port = readNumber('port', 4000);
+  const secret = readFlag('secret');
+  const failRate = readNumber('fail-rate', 0);
+  const failStatus = readNumber('status', 503);
+
+  const server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => (body += chunk));
+    req.on('end', () => {
+      const attempt = req.headers['x-webhook-attempt'];
+      const delivery = req.headers['x-webhook-delivery'];
+
+      if (Math.random() < failRate) {
+        console.log(`✗ ${delivery} attempt ${attempt} -> ${failStatus} (simulated failure)`);
+        res.writeHead(failStatus).end();
+        return;
+      }
+
+      let signature = 'not checked';
+      if (secret && secret !== 'true') {
+        const valid = verifyWebhookSignature(
+          secret,
+          String(req.headers[TIMESTAMP_HEADER] ?? ''),
+          body,
+          String(req.headers[SIGNATURE_HEADER] ?? '')
+        );
+        signature = valid ? 'valid' : 'INVALID';
+        if (!valid) {
+          console.log(`✗ ${delivery} attempt ${attempt} -> 401 (signature invalid)`);
+          res.writeHead(401).end();
+          return;
+        }
+      }
+
+      try {
+        const payload = JSON.parse(body) as { events: { type: string }[] };
+        const counts: Record<string, number> = {};
+        payload.events.forEach(event => (counts[event.type] = (counts[event.type] ?? 0) + 1));
+        console.log(`✓ ${delivery} attempt ${attempt}, signature ${signature}:`, counts);
+      } catch {
+        console.log(`✓ ${delivery} attempt ${attempt}: unparseable body (${body.length} bytes)`);
+      }
+      res.writeHead(204).end();
+    });
+  });
+
+  server.listen(port, () => {
+    console.log(`Webhook receiver listening on http://localhost:${port}`);
+  });
+}
+
+main();